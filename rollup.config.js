@@ -4,52 +4,85 @@ import babel from '@rollup/plugin-babel'; // Plugin for Babel
 import resolve from '@rollup/plugin-node-resolve'; // Plugin to resolve node modules
 import { minify } from 'terser';
 
-export default {
-  input: 'src/index.ts',  // Your entry point (index.ts)
+const plugins = [
+  resolve(),  // Resolve modules from node_modules
+  typescript({
+    tsconfig: 'tsconfig.json', // Explicitly specify the path to tsconfig.json
+    tsconfigDefaults: {
+      compilerOptions: {
+        declaration: true,
+        declarationDir: 'dist/types',
+        emitDeclarationOnly: false //Must be set to false
+      }
+    },
+    clean: true // Clean up declaration files before each build
+  }),
+  babel({
+    exclude: 'node_modules/**',  // Exclude node_modules from babel compilation
+    babelHelpers: 'bundled',  // Ensure Babel helper code is bundled with the build
+  }),
+  // {
+  //   name: 'terser',
+  //   renderChunk: async (code) => {
+  //     const result = await minify(code);
+  //     return { code: result.code };
+  //   }
+  // }
+];
+
+/** Output of a secondary entry point, importing the main entry as 'relayx-api' */
+const secondary = name => ({
+  input: `src/${name}.ts`,  // relayx-api/${name} entry point
   output: [
     {
-      file: 'dist/relayx-api.cjs.js',  // CommonJS output for npm
-      format: 'cjs',  // CommonJS format
-      exports: 'auto',  // Default export for npm
+      file: `dist/${name}.cjs.js`,
+      format: 'cjs',
+      exports: 'auto',
     },
     {
-      file: 'dist/relayx-api.esm.js',  // ES Module for modern bundlers
-      format: 'esm',  // ES Module format
+      file: `dist/${name}.esm.js`,
+      format: 'esm',
     },
+  ],
+  plugins: [
     {
-      file: 'dist/relayx-api.umd.js',  // UMD for browser usage via <script>
-      format: 'umd',  // Universal Module Definition (UMD)
-      name: 'MessageHandler',  // Global variable name when included via <script>
-      exports:"auto",
-      globals: {
-        // Define global variables for any external dependencies if necessary
-      },
+      // Shares the RelayXClient and RelayXError classes of the main entry instead of bundling copies
+      name: 'relayx-api-external',
+      resolveId: source => (source === './index' ? { id: 'relayx-api', external: true } : null),
     },
+    ...plugins,
   ],
-  plugins: [
-    resolve(),  // Resolve modules from node_modules
-    typescript({
-      tsconfig: 'tsconfig.json', // Explicitly specify the path to tsconfig.json
-      tsconfigDefaults: {
-        compilerOptions: {
-          declaration: true,
-          declarationDir: 'dist/types',
-          emitDeclarationOnly: false //Must be set to false
-        }
+  external: ['react', 'vue'],
+});
+
+export default [
+  {
+    input: 'src/index.ts',  // Your entry point (index.ts)
+    output: [
+      {
+        file: 'dist/relayx-api.cjs.js',  // CommonJS output for npm
+        format: 'cjs',  // CommonJS format
+        exports: 'auto',  // Default export for npm
       },
-      clean: true // Clean up declaration files before each build
-    }),
-    babel({
-      exclude: 'node_modules/**',  // Exclude node_modules from babel compilation
-      babelHelpers: 'bundled',  // Ensure Babel helper code is bundled with the build
-    }),
-    // {
-    //   name: 'terser',
-    //   renderChunk: async (code) => {
-    //     const result = await minify(code);
-    //     return { code: result.code };
-    //   }
-    // }
-  ],
-  external: [],  // External dependencies (if any)
-};
+      {
+        file: 'dist/relayx-api.esm.js',  // ES Module for modern bundlers
+        format: 'esm',  // ES Module format
+      },
+      {
+        file: 'dist/relayx-api.umd.js',  // UMD for browser usage via <script>
+        format: 'umd',  // Universal Module Definition (UMD)
+        name: 'MessageHandler',  // Global variable name when included via <script>
+        exports:"auto",
+        globals: {
+          // Define global variables for any external dependencies if necessary
+        },
+      },
+    ],
+    plugins,
+    external: [],  // External dependencies (if any)
+  },
+  secondary('testing'),
+  secondary('react'),
+  secondary('vue'),
+  secondary('inspector'),
+];
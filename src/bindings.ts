@@ -0,0 +1,56 @@
+import { CommandArgs, CommandName, CommandResult, HostEventName, RelayXClient, Response, settleAsResponse } from "./index";
+import { ErrorCode } from "./types";
+import { createErrorResponse } from "./utils";
+
+/**
+ * Helpers shared by the React and Vue bindings.
+ */
+
+/**
+ * Sends a command, resolving with its response whatever the client's
+ * failure mode, and with a HostUnavailable error when there is no client.
+ */
+export function callCommand<K extends CommandName>(client: RelayXClient | null, cmd: K, args: CommandArgs<K>): Promise<Response<CommandResult<K>>> {
+  if (!client) {
+    return Promise.resolve(createErrorResponse(cmd, '', {
+      code: ErrorCode.HostUnavailable,
+      message: 'RelayXClient is not available'
+    }));
+  }
+  const send = client.sendMessage as (cmd: string, ...args: any[]) => Promise<Response<CommandResult<K>>>;
+  return settleAsResponse(send.call(client, cmd, ...args));
+}
+
+/**
+ * Loads a value from the host and follows the event announcing its changes.
+ *
+ * @param client - The client to use
+ * @param load - Command fetching the current value
+ * @param event - Event carrying the new value
+ * @param update - Receives the value, first from the command, then from every event
+ * @returns Stops following the value
+ */
+export function followHostValue<T>(
+  client: RelayXClient,
+  load: (client: RelayXClient) => Promise<Response<T>>,
+  event: HostEventName,
+  update: (value: T) => void
+): () => void {
+  let active = true;
+  let changed = false;
+  const listener = (value: T) => {
+    changed = true;
+    update(value);
+  };
+
+  client.on(event as string, listener);
+  settleAsResponse(load(client)).then(response => {
+    // An event received meanwhile is more recent than the loaded value
+    if (active && !changed && response.code === 200) update(response.data);
+  });
+
+  return () => {
+    active = false;
+    client.off(event, listener);
+  };
+}
@@ -0,0 +1,138 @@
+import { canonicalJSON } from "./signing";
+import { Payload, Response } from "./types";
+
+/**
+ * Opt-in cache of read-only host queries. Responses are kept per command
+ * and payload for the command's TTL, identical calls made while one is in
+ * flight share its response, and subscribers learn about every change of a
+ * cached value, whether it was fetched, pushed by an event or written by
+ * the client itself.
+ */
+
+// Read-only commands whose responses may be cached
+export const CACHEABLE_COMMANDS = ['getLanguage', 'getSafeAreaInsets', 'getAccount', 'getExtendedData'] as const;
+
+export type CacheableCommand = typeof CACHEABLE_COMMANDS[number];
+
+// Milliseconds a command's response stays cached, Infinity until it changes or is invalidated
+export type CacheConfig = { [K in CacheableCommand]?: number };
+
+export type CacheListener<T = any> = (value: T) => void;
+
+interface CacheEntry {
+  response: Response;
+  expiresAt: number;
+}
+
+/** Key of a command call, ignoring the messageId of its payload */
+function cacheKey(cmd: string, data: Payload | undefined): string {
+  const { messageId: _messageId, ...fields } = data || {};
+  return `${cmd}:${canonicalJSON(fields)}`;
+}
+
+class ResponseCache {
+  private entries: Map<string, CacheEntry> = new Map();
+  private inFlight: Map<string, Promise<Response>> = new Map();
+  private listeners: { [cmd: string]: Set<CacheListener> } = {};
+  private writes: Map<string, number> = new Map(); // Values written or dropped per key, outdating the calls in flight
+
+  constructor(private readonly ttls: CacheConfig, private readonly now: () => number = Date.now) {}
+
+  /** Whether the responses of a command are cached */
+  covers(cmd: string): cmd is CacheableCommand {
+    const ttl = this.ttls[cmd as CacheableCommand];
+    return typeof ttl === 'number' && ttl > 0;
+  }
+
+  /**
+   * Answers a call from the cache, or joins the identical call in flight, or
+   * runs it. Only successful responses are cached.
+   *
+   * @param cmd - The command
+   * @param data - The payload data of the call
+   * @param options - `refresh` skips the cached response; `share` lets the call join or be joined by identical ones
+   * @param run - Sends the call to the host
+   */
+  fetch<T>(cmd: CacheableCommand, data: Payload | undefined, options: { refresh: boolean; share: boolean }, run: () => Promise<Response<T>>): Promise<Response<T>> {
+    const key = cacheKey(cmd, data);
+    const entry = this.entries.get(key);
+    if (entry && !options.refresh && entry.expiresAt > this.now()) {
+      return Promise.resolve(entry.response);
+    }
+
+    const pending = this.inFlight.get(key);
+    if (pending && options.share) return pending;
+
+    const writes = this.writes.get(key) || 0;
+    const request = run().then(response => {
+      if (this.inFlight.get(key) === request) this.inFlight.delete(key);
+
+      // A value written meanwhile is more recent than this response
+      if (response.code === 200 && (this.writes.get(key) || 0) === writes) this.store(cmd, key, response);
+      return response;
+    });
+    if (options.share) this.inFlight.set(key, request);
+    return request;
+  }
+
+  /**
+   * Replaces the cached value of a command called without payload, e.g.
+   * from the event announcing its change. Ignored unless the command is cached.
+   */
+  update(cmd: CacheableCommand, value: any) {
+    if (!this.covers(cmd)) return;
+
+    const key = cacheKey(cmd, undefined);
+    this.outdate(key);
+    this.store(cmd, key, { code: 200, cmd, messageId: '', data: value });
+  }
+
+  /** Changes the cached values of a command, which must be cached already */
+  patch(cmd: CacheableCommand, change: (value: any) => any) {
+    this.entries.forEach((entry, key) => {
+      if (!key.startsWith(`${cmd}:`)) return;
+      this.outdate(key);
+      this.store(cmd, key, { ...entry.response, data: change(entry.response.data) }, entry.expiresAt);
+    });
+  }
+
+  /** Drops the cached values of a command, or of every command */
+  invalidate(cmd?: CacheableCommand) {
+    Array.from(new Set([...this.entries.keys(), ...this.inFlight.keys()]))
+      .filter(key => !cmd || key.startsWith(`${cmd}:`))
+      .forEach(key => {
+        this.entries.delete(key);
+        this.outdate(key);
+      });
+  }
+
+  /** Calls a listener whenever a cached value of a command changes */
+  subscribe(cmd: CacheableCommand, listener: CacheListener): () => void {
+    (this.listeners[cmd] = this.listeners[cmd] || new Set()).add(listener);
+    return () => {
+      this.listeners[cmd]?.delete(listener);
+    };
+  }
+
+  /** Forgets every value and subscriber */
+  clear() {
+    this.invalidate();
+    this.listeners = {};
+  }
+
+  /** Keeps the calls in flight for a key from storing their response */
+  private outdate(key: string) {
+    this.inFlight.delete(key);
+    this.writes.set(key, (this.writes.get(key) || 0) + 1);
+  }
+
+  private store(cmd: CacheableCommand, key: string, response: Response, expiresAt?: number) {
+    const previous = this.entries.get(key);
+    this.entries.set(key, { response, expiresAt: expiresAt ?? this.now() + this.ttls[cmd]! });
+
+    if (previous && canonicalJSON(previous.response.data) === canonicalJSON(response.data)) return;
+    Array.from(this.listeners[cmd] || []).forEach(listener => listener(response.data));
+  }
+}
+
+export { ResponseCache };
@@ -0,0 +1,1586 @@
+import {
+  AccountInfo,
+  BatchEntry,
+  BatchResults,
+  CommandArgs,
+  CommandName,
+  CommandResult,
+  HostEventListener,
+  HostEventMap,
+  HostEventName,
+  ConnectCocoPayRequest,
+  ConnectCocoPayResult,
+  CopyToClipboardRequest,
+  DecryptRequest,
+  DecryptResult,
+  EncryptRequest,
+  EncryptResult,
+  ExtendedData,
+  GenerateSignatureRequest,
+  GetAccountRequest,
+  LanguageInfo,
+  OpenURLRequest,
+  ProgressUpdate,
+  RegisterServiceRequest,
+  RequestBase,
+  RequestOptions,
+  SafeAreaInsets,
+  SaveImageRequest,
+  ScanQRCodeResult,
+  SendServiceMessageRequest,
+  ServiceRequestOptions,
+  ServiceStatus,
+  SetExtendedDataRequest,
+  SigInfo,
+  SignatureResult,
+  TransferOptions,
+  VerifySignatureRequest,
+  VerifySignatureResult
+} from "./commands";
+import { CommandParamType, ErrorCode, ErrorResponse, HandshakeInfo, Payload, RequestMessage, Response, ValidationContext, ValidationResult } from "./types";
+import { CacheConfig, CacheListener, CacheableCommand, ResponseCache } from "./cache";
+import { RelayXError, settleAsResponse } from "./errors";
+import { BrowserFallbackTransport, isInContainer } from "./fallback";
+import { LogLevel, Logger, LoggerConfig } from "./logger";
+import { Middleware, MiddlewareContext, runMiddleware } from "./middleware";
+import { OutboxEntry, OutboxStorage } from "./outbox";
+import { ServiceFetchInit, ServiceFetchResponse, buildServiceRequest, readServiceResponse } from "./service";
+import { KeyExchange, SecureSession, createKeyExchange, isSealed } from "./secure";
+import { CommandStream, createCommandStream } from "./stream";
+import { ANY_COMMAND, BATCH_COMMAND, HANDSHAKE_COMMAND, HANDSHAKE_TIMEOUT, PROTOCOL_VERSION, VERSION } from "./protocol";
+import { RETRYABLE_COMMANDS, RetryPolicy, isRetryable, resolveRetryPolicy, retryDelay } from "./retry";
+import {
+  DEFAULT_CHUNK_SIZE,
+  TRANSFER_CHUNK_COMMAND,
+  TRANSFER_START_COMMAND,
+  TransferChunkRequest,
+  TransferStartRequest,
+  TransferStartResult,
+  bytesToBase64,
+  crc32,
+  readBinary
+} from "./transfer";
+import { ParentWindowTransport, Transport, TransportMessage } from "./transport";
+import { createErrorResponse, generateUniqueMessageId } from "./utils";
+import {
+  validateCheckServiceStatus,
+  validateConnectCocoPay,
+  validateCopyToClipboard,
+  validateDecrypt,
+  validateEncrypt,
+  validateGenerateSignature,
+  validateGetAccount,
+  validateOpenURL,
+  validateRegisterService,
+  validateSaveImage,
+  validateSendServiceMessage,
+  validateSetExtendedData,
+  validateVerifySignature,
+  CommandSchema,
+  commandValidators,
+  registerSchema
+} from "./validation";
+
+interface CommandConfig {
+  type: CommandParamType;
+  handler: Function;
+  validate?: CommandValidator;
+  timeout?: number;
+  noTimeout?: boolean;
+}
+
+type CommandValidator = (data: Payload, sign?: Payload, context?: ValidationContext) => ValidationResult;
+
+// Definition of a command added with registerCommand
+export interface CommandDefinition {
+  type: CommandParamType; // Shape of the sendMessage payload, as for the built-in commands
+  validate?: CommandSchema | CommandValidator; // Schemas are shared with RelayXHost, functions apply to this client only
+  timeout?: number; // Default timeout of the command, overriding the client's
+  noTimeout?: boolean; // Wait indefinitely unless the caller passes a timeout, e.g. for commands awaiting the user
+}
+
+// Commands answered by the protocol itself, which cannot be registered
+const RESERVED_COMMANDS = [HANDSHAKE_COMMAND, BATCH_COMMAND, TRANSFER_START_COMMAND, TRANSFER_CHUNK_COMMAND];
+
+
+export interface RelayXClientConfig {
+  timeout?: number;
+  allowedOrigins?: string[]; // Parent origins whose responses are accepted, any origin when omitted
+  targetOrigin?: string; // Target origin used when posting to the parent window
+  transport?: Transport; // Channel to the host, defaults to a ParentWindowTransport using the origin options above
+  browserFallback?: boolean | string[]; // Outside the container, answers FALLBACK_COMMANDS (or the listed ones) with browser APIs
+  autoConnect?: boolean; // Start the capability handshake on construction
+  throwOnError?: boolean; // Reject failed commands with a RelayXError instead of resolving an ErrorResponse
+  retry?: Partial<RetryPolicy>; // Retries failed Self Service commands, completed with DEFAULT_RETRY_POLICY
+  outbox?: OutboxStorage; // Persists sendServiceMessage calls until the host has answered them
+  onOutboxSettled?: (entry: OutboxEntry, response: Response) => void; // Reports every answered outbox entry, including those of earlier sessions
+  middleware?: Middleware[]; // Runs around every request, see use()
+  cache?: CacheConfig; // Caches the responses of read-only queries, see subscribe()
+  logger?: LoggerConfig; // Logs the message traffic, nothing is logged when omitted
+  secure?: boolean; // Encrypts every message after a key exchange in the handshake, which then starts right away
+}
+
+// A request awaiting its response, see getPendingRequests()
+export interface PendingRequest {
+  cmd: string;
+  messageId: string;
+  sentAt: number; // Milliseconds since the epoch
+  elapsed: number; // Milliseconds since the request was sent
+  timeout?: number; // Milliseconds the request waits in total, none when it waits indefinitely
+}
+
+const MAX_CHUNK_ATTEMPTS = 3;
+
+// RelayXClient class to manage communication with the host, by default through postMessage to the parent window
+class RelayXClient  {
+  private commandMap: { [key: string]: CommandConfig };
+  private customCommands: Set<string> = new Set();
+  private middleware: Middleware[] = [];
+  private readonly defaultTimeout: number = 30000; // 30 seconds default timeout
+  private readonly throwOnError: boolean;
+  private readonly transport: Transport;
+  private readonly fallback: BrowserFallbackTransport | null = null;
+  private unsubscribe: (() => void) | null;
+  private readonly retryPolicy: RetryPolicy | null;
+  private readonly cache: ResponseCache | null;
+  private readonly logger: Logger | null;
+
+  // Persistent outbox state, see flushOutbox()
+  private readonly outbox: OutboxStorage | null;
+  private readonly onOutboxSettled?: (entry: OutboxEntry, response: Response) => void;
+  private outboxLock: Promise<unknown> = Promise.resolve();
+  private flushing: Promise<void> | null = null;
+  private outboxStalled = false;
+  private outboxWaiters: {
+    [messageId: string]: { resolve: (value: Response) => void, removeAbortListener?: () => void }
+  } = {};
+
+  // Capability handshake state, see connect()
+  private connection: Promise<Response<HandshakeInfo>> | null = null;
+  private connected = false;
+  private hostInfo: HandshakeInfo | null = null;
+  private protocolError: ErrorResponse | null = null;
+
+  // Secure channel state, see handshake()
+  private readonly secureSession: Promise<SecureSession | null> | null = null;
+  private establishSession: (session: SecureSession | null) => void = () => {};
+  private sessionEstablished = false;
+  private readonly channel = generateUniqueMessageId(); // Id of this client's secure channel, see secure.ts
+  private receiving: Promise<void> = Promise.resolve();
+
+  private messageCallbacks: { 
+    [key: string]: { 
+      resolve: (value: Response) => void, 
+      reject: (reason?: any) => void,
+      cmd: string,
+      sentAt: number,
+      timeoutId?: ReturnType<typeof setTimeout>,
+      timeoutMs?: number,
+      onProgress?: (progress: ProgressUpdate) => void,
+      removeAbortListener?: () => void
+    } 
+  } = {};
+
+  private eventListeners: {
+    [event: string]: { listener: HostEventListener, once: boolean }[]
+  } = {};
+
+  constructor(config: RelayXClientConfig = {}) {
+    // Initialize the callback map
+    this.defaultTimeout = config.timeout || 30000;
+    this.throwOnError = !!config.throwOnError;
+    if (config.transport) {
+      this.transport = config.transport;
+    } else if (isInContainer()) {
+      this.transport = new ParentWindowTransport({
+        allowedOrigins: config.allowedOrigins,
+        targetOrigin: config.targetOrigin
+      });
+    } else {
+      // Opened in a browser tab: nothing would answer, so commands are answered locally or fail at once
+      const { browserFallback } = config;
+      this.fallback = new BrowserFallbackTransport({ commands: browserFallback === true ? undefined : browserFallback || [] });
+      this.transport = this.fallback;
+    }
+    this.retryPolicy = config.retry ? resolveRetryPolicy(config.retry) : null;
+    this.outbox = config.outbox || null;
+    this.onOutboxSettled = config.onOutboxSettled;
+    this.middleware = (config.middleware || []).slice();
+    this.cache = config.cache ? new ResponseCache(config.cache) : null;
+    this.logger = config.logger ? new Logger(config.logger) : null;
+
+    this.commandMap = {
+      connectCocoPay: { type: "payload", handler: this.connectCocoPay.bind(this) },
+      getSafeAreaInsets: { type: "callbackOnly", handler: this.getSafeAreaInsets.bind(this) },
+      getLanguage: { type: "callbackOnly", handler: this.getLanguage.bind(this) },
+      // openURL and scanQRCode wait on the user
+      openURL: { type: "payload", handler: this.openURL.bind(this), noTimeout: true },
+      scanQRCode: { type: "callbackOnly", handler: this.scanQRCode.bind(this), noTimeout: true },
+      copyToClipboard: { type: "payload", handler: this.copyToClipboard.bind(this) },
+      saveImage: { type: "payload", handler: this.saveImage.bind(this) },
+      getAccount: { type: "payload", handler: this.getAccount.bind(this) },
+      setExtendedData: { type: "payload", handler: this.setExtendedData.bind(this) },
+      getExtendedData: { type: "callbackOnly", handler: this.getExtendedData.bind(this) },
+      generateSignature: { type: "payload", handler: this.generateSignature.bind(this) },
+      verifySignature: { type: "payload", handler: this.verifySignature.bind(this) },
+      encrypt: { type: "payload", handler: this.encrypt.bind(this) },
+      decrypt: { type: "payload", handler: this.decrypt.bind(this) },
+      registerService: { type: "payloadAndSign", handler: this.registerService.bind(this) },
+      checkServiceStatus: { type: "signOnly", handler: this.checkServiceStatus.bind(this) },
+      sendServiceMessage: { type: "payloadAndSign", handler: this.sendServiceMessage.bind(this) }
+    };
+
+    // Responses are only picked up by the instance owning the messageId
+    this.unsubscribe = this.transport.subscribe(message => this.messageHandler(message));
+
+    if (config.secure) {
+      this.secureSession = new Promise(resolve => {
+        this.establishSession = resolve;
+      });
+    }
+
+    // Started without settle(), so a failed handshake does not reject unobserved in throwOnError mode
+    if (config.autoConnect || config.secure) {
+      this.connection = this.handshake({});
+    }
+
+    // Deliver what earlier sessions left in the outbox
+    if (this.outbox) {
+      this.flushOutbox();
+    }
+  }
+
+  /**
+   * Performs the capability handshake: exchanges package and protocol versions
+   * and the supported commands with the host. Commands issued while it is in
+   * progress are queued and sent once it completes. Afterwards, commands the
+   * host does not list fail immediately with `methodNotFound`.
+   *
+   * Hosts that do not answer the handshake are treated as legacy hosts:
+   * the call settles with the error and commands are sent unchecked.
+   * Calling it again returns the same handshake.
+   */
+  connect(options: RequestOptions = {}): Promise<Response<HandshakeInfo>> {
+    if (!this.connection) {
+      this.connection = this.handshake(options);
+    }
+    return this.settle(this.connection);
+  }
+
+  /**
+   * Runs the handshake. With `secure`, it also carries the key exchange:
+   * commands wait until the session key is derived, and fail with
+   * `SecureChannelError` when it cannot be, rather than travelling in clear.
+   */
+  private async handshake(options: RequestOptions): Promise<Response<HandshakeInfo>> {
+    const request: HandshakeInfo = {
+      version: VERSION,
+      protocolVersion: PROTOCOL_VERSION,
+      commands: Object.keys(this.commandMap)
+    };
+
+    let exchange: KeyExchange | null = null;
+    if (this.secureSession) {
+      try {
+        exchange = await createKeyExchange();
+        request.secure = { publicKey: exchange.publicKey, channel: this.channel };
+      } catch (error) {
+        return this.failSecureChannel(options.messageId || generateUniqueMessageId(), error instanceof Error ? error.message : 'Key exchange failed');
+      }
+    }
+
+    const response = await this.postMessage<HandshakeInfo>(HANDSHAKE_COMMAND, { data: request }, { timeout: HANDSHAKE_TIMEOUT, ...options });
+    if (response.code !== 200) {
+      if (exchange) return this.failSecureChannel(response.messageId, `Handshake failed: ${response.message}`);
+      this.connected = true;
+      return response;
+    }
+
+    if (!response.data || response.data.protocolVersion !== PROTOCOL_VERSION) {
+      this.connected = true;
+      this.establishSession(null);
+      this.protocolError = this.handleError(HANDSHAKE_COMMAND, response.messageId, {
+        code: ErrorCode.ProtocolMismatch,
+        message: `Host protocol version ${response.data?.protocolVersion} is not supported, expected ${PROTOCOL_VERSION}`,
+        data: response.data
+      });
+      return this.protocolError;
+    }
+
+    if (exchange) {
+      if (!response.data.secure || typeof response.data.secure.publicKey !== 'string') {
+        return this.failSecureChannel(response.messageId, 'Host does not support the secure channel');
+      }
+      try {
+        this.establishSession(await SecureSession.establish(exchange, response.data.secure.publicKey, 'client', this.channel));
+        this.sessionEstablished = true;
+      } catch (error) {
+        return this.failSecureChannel(response.messageId, error instanceof Error ? error.message : 'Key exchange failed');
+      }
+    }
+
+    this.connected = true;
+    this.hostInfo = response.data;
+    if (this.outboxStalled) this.flushOutbox();
+    return response;
+  }
+
+  /** Ends the handshake when the secure channel cannot be established; every command then fails */
+  private failSecureChannel(messageId: string, message: string): ErrorResponse {
+    this.connected = true;
+    this.establishSession(null);
+    this.protocolError = this.handleError(HANDSHAKE_COMMAND, messageId, { code: ErrorCode.SecureChannelError, message });
+    return this.protocolError;
+  }
+
+  /**
+   * Whether the host advertised a command during the handshake, by name or
+   * with the `'*'` wildcard. Always false until a handshake has succeeded.
+   */
+  supports(cmd: string): boolean {
+    return !!this.hostInfo && (this.hostInfo.commands.includes(cmd) || this.hostInfo.commands.includes(ANY_COMMAND));
+  }
+
+  /** Versions and commands reported by the host, null until a handshake has succeeded */
+  getHostInfo(): HandshakeInfo | null {
+    return this.hostInfo;
+  }
+
+  // Unified error handling function
+  private handleError(cmd: string, messageId: string, options: { code?: ErrorCode; message?: string; data?: any; } = {}): ErrorResponse {
+    const error = createErrorResponse(cmd, messageId, options);
+    this.log('warn', `${cmd} failed with ${error.code}: ${error.message}`, error);
+    return error;
+  }
+
+  /** Logs an entry about a message, when the client has a logger */
+  private log(level: LogLevel, message: string, response: { cmd?: string; messageId: string; [key: string]: any }) {
+    if (this.logger) {
+      this.logger.log(level, message, { cmd: response.cmd, messageId: response.messageId, details: response });
+    }
+  }
+
+  /**
+   * Requests sent to the host that have not been answered yet, oldest first,
+   * e.g. to find out which command hangs.
+   */
+  getPendingRequests(): PendingRequest[] {
+    const now = Date.now();
+    return Object.keys(this.messageCallbacks)
+      .map(messageId => {
+        const { cmd, sentAt, timeoutMs } = this.messageCallbacks[messageId];
+        const pending: PendingRequest = { cmd, messageId, sentAt, elapsed: now - sentAt };
+        if (timeoutMs) pending.timeout = timeoutMs;
+        return pending;
+      })
+      .sort((a, b) => a.sentAt - b.sentAt);
+  }
+
+  /**
+   * Applies the configured failure mode to a command result:
+   * in `throwOnError` mode, error responses become RelayXError rejections.
+   */
+  private settle<T>(promise: Promise<Response<T>>): Promise<Response<T>> {
+    if (!this.throwOnError) return promise;
+    return promise.then(response => {
+      if (response.code === 200) return response;
+      throw new RelayXError(response);
+    });
+  }
+
+  /** Settles with an error response when a validation check fails */
+  private validationError(cmd: string, messageId: string, check: ValidationResult): Promise<Response> | null {
+    if (check.isValid) return null;
+    return this.settle(Promise.resolve(this.invalidResponse(cmd, messageId, check)));
+  }
+
+  /** Error response of a failed validation check, listing the offending fields in `data.errors` */
+  private invalidResponse(cmd: string, messageId: string, check: ValidationResult): ErrorResponse {
+    return this.handleError(cmd, messageId, {
+      code: check.errorCode,
+      message: check.errorMessage,
+      data: check.errors && { errors: check.errors }
+    });
+  }
+
+  private cleanupCallback(messageId: string) {
+    if (!messageId || !this.messageCallbacks[messageId]) return;
+    
+    // Clear the timeout if it exists
+    const callback = this.messageCallbacks[messageId];
+    if (callback.timeoutId) {
+      clearTimeout(callback.timeoutId);
+    }
+    if (callback.removeAbortListener) {
+      callback.removeAbortListener();
+    }
+    
+    // Remove the callback
+    delete this.messageCallbacks[messageId];
+  }
+
+  /** (Re)starts the timeout of a pending request */
+  private startTimeout(messageId: string) {
+    const callback = this.messageCallbacks[messageId];
+    if (!callback || !callback.timeoutMs) return;
+
+    if (callback.timeoutId) {
+      clearTimeout(callback.timeoutId);
+    }
+    callback.timeoutId = setTimeout(() => {
+      this.handleTimeout(messageId, callback.cmd);
+    }, callback.timeoutMs);
+  }
+
+  private handleTimeout(messageId: string, cmd: string) {
+    const callback = this.messageCallbacks[messageId];
+    if (callback) {
+      callback.resolve(this.handleError(cmd, messageId, {
+        code: ErrorCode.TimeoutError,
+        message: 'Request timed out'
+      }));
+      
+      // Clean up
+      this.cleanupCallback(messageId);
+    }
+  }
+
+  private handleAbort(messageId: string, cmd: string) {
+    const callback = this.messageCallbacks[messageId];
+    if (callback) {
+      this.cleanupCallback(messageId);
+      callback.resolve(this.handleError(cmd, messageId, {
+        code: ErrorCode.RequestCancelled,
+        message: 'Request cancelled'
+      }));
+    }
+  }
+
+  /** Timeout applied when the caller does not pass one, from the command's configuration */
+  private defaultTimeoutFor(cmd: string): number {
+    const config = this.commandMap[cmd];
+    if (config && config.noTimeout) return 0;
+    return config && config.timeout !== undefined ? config.timeout : this.defaultTimeout;
+  }
+
+  /** Validator of a command: its own, else the shared one registered for its name */
+  private validatorFor(cmd: string): CommandValidator | undefined {
+    const config = this.commandMap[cmd];
+    return (config && config.validate) || commandValidators[cmd];
+  }
+
+  /**
+   * Registers a command the host provides beyond the built-in ones. It is then
+   * available through `sendMessage` and `batch`, with validation, timeout
+   * handling and, once added to `CommandMap` by declaration merging, typing
+   * like a built-in command. Registering a name again replaces its definition.
+   *
+   * @param name - The command name
+   * @param definition - Payload shape, validation and timeout of the command
+   */
+  registerCommand(name: string, definition: CommandDefinition): this {
+    const isBuiltIn = !!this.commandMap[name] && !this.customCommands.has(name);
+    if (isBuiltIn || RESERVED_COMMANDS.includes(name)) {
+      throw new Error(`Command ${name} cannot be registered`);
+    }
+
+    let validate: CommandValidator | undefined;
+    if (typeof definition.validate === 'function') {
+      validate = definition.validate;
+    } else if (definition.validate) {
+      registerSchema(name, definition.validate);
+    }
+
+    const send = (data: Payload | undefined, sign: Payload | undefined, options: RequestOptions = {}) =>
+      this.sendCommand(name, data, sign, options);
+    const handlers: { [type in CommandParamType]: Function } = {
+      callbackOnly: (options?: RequestOptions) => send({}, undefined, options),
+      payload: (payload: Payload, options?: RequestOptions) => send(payload, undefined, options),
+      payloadAndSign: (data: Payload, sign: Payload, options?: RequestOptions) => send(data, sign, options),
+      signOnly: (sign: Payload, options?: RequestOptions) => send({}, sign, options)
+    };
+
+    this.commandMap[name] = {
+      type: definition.type,
+      handler: handlers[definition.type],
+      validate,
+      timeout: definition.timeout,
+      noTimeout: definition.noTimeout
+    };
+    this.customCommands.add(name);
+    return this;
+  }
+
+  /** Validates and sends a registered command */
+  private sendCommand(cmd: string, data: Payload | undefined, sign: Payload | undefined, options: RequestOptions): Promise<Response> {
+    const messageId = this.resolveMessageId(this.commandMap[cmd].type === "signOnly" ? sign : data, options);
+    const validate = this.validatorFor(cmd);
+    const error = validate ? this.validationError(cmd, messageId, validate(data || {}, sign)) : null;
+    if (error) return error;
+
+    const message: Payload = { data: data || {} };
+    if (sign) message.sign = sign;
+    return this._sendMessage(cmd, message, { ...options, messageId });
+  }
+
+  /** Picks the messageId of a request: explicit option first, then the payload's */
+  private resolveMessageId(payload: RequestBase | undefined, options: { messageId?: string }): string {
+    return options.messageId || payload?.messageId || generateUniqueMessageId();
+  }
+
+  /**
+   * Sends a message to the host through the transport.
+   * Returns a Promise that resolves with the response, or rejects with a
+   * RelayXError on failure in `throwOnError` mode.
+   * 
+   * @param cmd - The command name to send
+   * @param payload - The data payload
+   * @param options - Per-call timeout, abort signal and messageId
+   * @returns Promise that resolves with the response
+   */
+  private _sendMessage<T = any>(cmd: string, payload: Payload, options: RequestOptions = {}): Promise<Response<T>> {
+    const { refresh, ...requestOptions } = options;
+    if (this.cache && this.cache.covers(cmd)) {
+      // A call that may be cancelled neither joins nor is joined by identical ones
+      const share = !requestOptions.signal;
+      return this.settle(this.cache.fetch(cmd, payload.data, { refresh: !!refresh, share }, () => this.request<T>(cmd, payload, requestOptions)));
+    }
+    return this.settle(this.request<T>(cmd, payload, requestOptions));
+  }
+
+  /**
+   * Calls a listener whenever a cached value of a command changes: when it is
+   * first fetched, fetched again with a different result, pushed by the host
+   * (languageChange, safeAreaChange) or written with setExtendedData.
+   * The command must be cached, see `RelayXClientConfig.cache`.
+   *
+   * @returns Removes the listener
+   */
+  subscribe<K extends CacheableCommand>(cmd: K, listener: CacheListener<CommandResult<K>>): () => void {
+    if (!this.cache || !this.cache.covers(cmd)) {
+      throw new Error(`Responses of ${cmd} are not cached`);
+    }
+    return this.cache.subscribe(cmd, listener);
+  }
+
+  /** Drops the cached responses of a command, or of every command */
+  invalidate(cmd?: CacheableCommand): this {
+    if (this.cache) this.cache.invalidate(cmd);
+    return this;
+  }
+
+  /** Sends a message, resolving with the response regardless of the failure mode */
+  private request<T = any>(cmd: string, payload: Payload, options: RequestOptions = {}): Promise<Response<T>> {
+    // Commands issued during the handshake wait for it to complete
+    if (this.connection && !this.connected) {
+      return this.connection.then(() => this.intercept<T>(cmd, payload, options));
+    }
+    return this.intercept<T>(cmd, payload, options);
+  }
+
+  /**
+   * Adds a middleware running around every request: built-in commands,
+   * `sendMessage` calls, retries, transfer chunks and batch envelopes.
+   * Middleware runs in the order it was added.
+   *
+   *   client.use(async (context, next) => {
+   *     const start = Date.now();
+   *     const response = await next();
+   *     metrics.record(context.cmd, Date.now() - start);
+   *     return response;
+   *   });
+   */
+  use(middleware: Middleware): this {
+    this.middleware.push(middleware);
+    return this;
+  }
+
+  /** Removes a middleware added with `use` */
+  removeMiddleware(middleware: Middleware): this {
+    this.middleware = this.middleware.filter(entry => entry !== middleware);
+    return this;
+  }
+
+  /** Passes a request through the middleware before posting it */
+  private intercept<T>(cmd: string, payload: Payload, options: RequestOptions): Promise<Response<T>> {
+    if (!this.middleware.length) {
+      return this.postMessage<T>(cmd, payload, options);
+    }
+
+    const context: MiddlewareContext = {
+      cmd,
+      messageId: options.messageId || generateUniqueMessageId(),
+      message: { ...payload },
+      options: { ...options }
+    };
+    const send = () => this.postMessage(context.cmd, context.message, { ...context.options, messageId: context.messageId });
+
+    return runMiddleware(this.middleware.slice(), context, send).catch(error => this.handleError(context.cmd, context.messageId, {
+      code: ErrorCode.InternalError,
+      message: error instanceof Error ? error.message : 'Middleware failed'
+    }));
+  }
+
+  /**
+   * Sends a command whose binary `field` is too large for a single message:
+   * the content goes out in checksummed chunks first, then the command follows
+   * with a reference to the transfer. Chunks the host already holds for the
+   * same `transferId` are skipped, so a failed transfer can be resumed.
+   *
+   * @param cmd - The command name to send
+   * @param payload - The command payload holding the binary field
+   * @param field - Name of the binary field
+   * @param options - Per-call options plus chunking and progress settings
+   * @param sign - Signature information of the command, if any
+   */
+  transfer<T = any>(cmd: string, payload: Payload, field: string, options: TransferOptions = {}, sign?: SigInfo): Promise<Response<T>> {
+    return this.settle(this.runTransfer<T>(cmd, payload, field, options, sign));
+  }
+
+  /** Binary images and images over the single-message limit go through a chunked transfer */
+  private needsTransfer(payload: Partial<SaveImageRequest> | undefined, check: ValidationResult): boolean {
+    return check.errorCode === ErrorCode.ExceededUploadSizeLimit ||
+      (check.isValid && typeof payload?.image !== 'string');
+  }
+
+  /**
+   * Sends several commands in a single round trip. Each entry is validated like
+   * the matching command method; invalid entries resolve with their error
+   * response and the others are still sent. Resolves with the responses in
+   * the order of the entries, also in `throwOnError` mode.
+   *
+   * Cached commands, see `RelayXClientConfig.cache`, are answered from the
+   * cache when it holds their value, and their batched responses fill it.
+   *
+   * When the handshake did not report batch support, the entries are sent
+   * as parallel individual calls instead. Images needing a chunked transfer,
+   * Self Service commands, which get their retries, idempotency key and
+   * outbox, and entries with options of their own besides `messageId`
+   * (`timeout`, `signal`, `onProgress`, `refresh`), are always sent on
+   * their own.
+   *
+   * @param entries - Commands with their sendMessage payload and options
+   * @param options - Options of the batch round trip
+   */
+  batch<T extends BatchEntry[]>(entries: [...T], options: RequestOptions = {}): Promise<BatchResults<T>> {
+    return this.runBatch(entries, options) as Promise<BatchResults<T>>;
+  }
+
+  private async runBatch(entries: BatchEntry[], options: RequestOptions): Promise<Response[]> {
+    if (this.connection && !this.connected) {
+      await this.connection;
+    }
+    if (!this.supports(BATCH_COMMAND)) {
+      return Promise.all(entries.map(entry => this.sendEntry(entry)));
+    }
+
+    const results: Response[] = new Array(entries.length);
+    const requests: RequestMessage[] = [];
+    const positions: number[] = [];
+    const deliveries: (((response: Response) => void) | undefined)[] = [];
+    const individual: Promise<void>[] = [];
+
+    entries.forEach((entry, index) => {
+      const prepared = this.prepareRequest(entry);
+      if ('request' in prepared) {
+        const { cmd, data } = prepared.request;
+        let deliver: ((response: Response) => void) | undefined;
+        if (this.cache && this.cache.covers(cmd)) {
+          // The cache answers the entry, or joins an identical call, or waits for the envelope's response and keeps it
+          const cached = this.cache.fetch(cmd, data, { refresh: false, share: !options.signal }, () => new Promise<Response>(resolve => {
+            deliver = resolve;
+          }));
+          if (!deliver) {
+            individual.push(cached.then(response => { results[index] = response; }));
+            return;
+          }
+        }
+        requests.push(prepared.request);
+        positions.push(index);
+        deliveries.push(deliver);
+      } else if ('response' in prepared) {
+        results[index] = prepared.response;
+      } else {
+        individual.push(this.sendEntry(entry).then(response => { results[index] = response; }));
+      }
+    });
+
+    if (requests.length) {
+      // The envelope waits as long as its most patient command
+      const timeouts = requests.map(request => this.defaultTimeoutFor(request.cmd));
+      const timeout = options.timeout !== undefined ? options.timeout : (timeouts.includes(0) ? 0 : Math.max(...timeouts));
+      const response = await this.request<{ responses: Response[] }>(BATCH_COMMAND, { data: { requests } }, { ...options, timeout });
+
+      requests.forEach((request, i) => {
+        const { cmd, messageId } = request;
+        const responses = response.code === 200 && response.data && Array.isArray(response.data.responses) ? response.data.responses : [];
+        results[positions[i]] = response.code !== 200
+          ? this.handleError(cmd, messageId, { code: response.code, message: response.message })
+          : responses.find(item => item && item.messageId === messageId) ||
+            this.handleError(cmd, messageId, { code: ErrorCode.InternalError, message: 'Missing response in batch' });
+
+        const deliver = deliveries[i];
+        if (deliver) deliver(results[positions[i]]);
+      });
+    }
+
+    await Promise.all(individual);
+    return results;
+  }
+
+  /** Sends a batch entry as an individual call, resolving with failures instead of rejecting */
+  private sendEntry(entry: BatchEntry): Promise<Response> {
+    return settleAsResponse(this.sendMessage(entry.cmd as string, entry.payload, entry.options));
+  }
+
+  /**
+   * Builds the message of a batch entry after validating it like the command
+   * method would, or the error response for an invalid entry.
+   */
+  private prepareRequest(entry: BatchEntry): { request: RequestMessage } | { response: Response } | { individual: true } {
+    const { cmd } = entry;
+    const payload: Payload = entry.payload || {};
+    const options: RequestOptions = entry.options || {};
+    const commandHandler = this.commandMap[cmd];
+
+    // The envelope has a single timeout and signal, and neither progress nor caching
+    if (options.timeout !== undefined || options.signal || options.onProgress || options.refresh) {
+      return { individual: true };
+    }
+    if (RETRYABLE_COMMANDS.includes(cmd)) {
+      return { individual: true };
+    }
+
+    if (!commandHandler) {
+      const messageId = this.resolveMessageId(payload, options);
+      const validate = commandValidators[cmd];
+      const check = validate ? validate(payload.data, payload.sign) : { isValid: true };
+      if (!check.isValid) {
+        return { response: this.invalidResponse(cmd, messageId, check) };
+      }
+      return { request: { ...payload, cmd, messageId } };
+    }
+
+    let data: Payload = {};
+    let sign: Payload | undefined;
+    switch (commandHandler.type) {
+      case "payload":
+        data = payload;
+        break;
+      case "payloadAndSign":
+        data = payload.data;
+        sign = payload.sign;
+        break;
+      case "signOnly":
+        sign = payload.sign;
+        break;
+    }
+
+    const messageId = this.resolveMessageId(commandHandler.type === "signOnly" ? sign : data, options);
+    const validate = this.validatorFor(cmd);
+    const check = validate ? validate(data || {}, sign) : { isValid: true };
+
+    if (cmd === 'saveImage' && this.needsTransfer(data, check)) {
+      return { individual: true };
+    }
+    if (!check.isValid) {
+      return { response: this.invalidResponse(cmd, messageId, check) };
+    }
+
+    const request: RequestMessage = { cmd, messageId, data: data || {} };
+    if (sign) request.sign = sign;
+    return { request };
+  }
+
+  private async runTransfer<T>(cmd: string, payload: Payload, field: string, options: TransferOptions, sign?: SigInfo): Promise<Response<T>> {
+    const { onProgress, chunkSize: requestedChunkSize, transferId: requestedTransferId, ...requestOptions } = options;
+    const messageId = options.messageId || generateUniqueMessageId();
+    const transferId = requestedTransferId || generateUniqueMessageId();
+    const chunkOptions: RequestOptions = { timeout: requestOptions.timeout, signal: requestOptions.signal };
+
+    let content: { bytes: Uint8Array; mimeType: string };
+    try {
+      content = await readBinary(payload[field], payload.mimeType);
+    } catch (error) {
+      return this.handleError(cmd, messageId, {
+        message: error instanceof Error ? error.message : 'Failed to read binary data'
+      });
+    }
+
+    const { bytes, mimeType } = content;
+    const chunkSize = requestedChunkSize && requestedChunkSize > 0 ? requestedChunkSize : DEFAULT_CHUNK_SIZE;
+    const totalChunks = Math.max(1, Math.ceil(bytes.length / chunkSize));
+
+    const start: TransferStartRequest = {
+      transferId,
+      size: bytes.length,
+      mimeType,
+      chunkSize,
+      totalChunks,
+      checksum: crc32(bytes)
+    };
+    const started = await this.request<TransferStartResult>(TRANSFER_START_COMMAND, { data: start }, chunkOptions);
+    if (started.code !== 200) {
+      return { ...started, cmd };
+    }
+
+    const received = new Set(started.data && Array.isArray(started.data.received) ? started.data.received : []);
+    const report = () => {
+      if (!onProgress) return;
+      const sentBytes = Array.from(received).reduce((total, index) =>
+        total + Math.min(chunkSize, bytes.length - index * chunkSize), 0);
+      onProgress({ transferId, sentBytes, totalBytes: bytes.length, sentChunks: received.size, totalChunks });
+    };
+    report();
+
+    for (let index = 0; index < totalChunks; index++) {
+      if (received.has(index)) continue;
+
+      const chunk = bytes.subarray(index * chunkSize, (index + 1) * chunkSize);
+      const request: TransferChunkRequest = { transferId, index, chunk: bytesToBase64(chunk), checksum: crc32(chunk) };
+
+      // A lost chunk is retried before giving up; the transfer can still be resumed later
+      let response = await this.request(TRANSFER_CHUNK_COMMAND, { data: request }, chunkOptions);
+      for (let attempt = 1; response.code === ErrorCode.TimeoutError && attempt < MAX_CHUNK_ATTEMPTS; attempt++) {
+        response = await this.request(TRANSFER_CHUNK_COMMAND, { data: request }, chunkOptions);
+      }
+      if (response.code !== 200) {
+        return { ...response, cmd, data: { ...response.data, transferId } };
+      }
+
+      received.add(index);
+      report();
+    }
+
+    const { [field]: _binary, mimeType: _mimeType, ...data } = payload;
+    const message: Payload = { data, transfer: { transferId, field } };
+    if (sign) message.sign = sign;
+    return this.request<T>(cmd, message, { ...requestOptions, messageId });
+  }
+
+  /** Posts a message through the transport and registers its callback */
+  private postMessage<T = any>(cmd: string, payload: Payload, options: RequestOptions): Promise<Response<T>> {
+    return new Promise<Response<T>>((resolve, reject) => {
+      const messageId = options.messageId || generateUniqueMessageId();
+      const { signal } = options;
+
+      if (this.protocolError) {
+        resolve(this.handleError(cmd, messageId, {
+          code: this.protocolError.code,
+          message: this.protocolError.message
+        }));
+        return;
+      }
+
+      // Fail fast instead of waiting for a timeout when the host lacks the command
+      if (this.hostInfo && !this.supports(cmd)) {
+        resolve(this.handleError(cmd, messageId, this.fallback ? {
+          code: ErrorCode.NotInContainer,
+          message: `Command ${cmd} is not available outside the RelayApp container`
+        } : {
+          code: ErrorCode.methodNotFound,
+          message: `Command ${cmd} is not supported by the host`
+        }));
+        return;
+      }
+
+      if (this.messageCallbacks[messageId]) {
+        resolve(this.handleError(cmd, messageId, {
+          message: `A request with messageId ${messageId} is already pending`
+        }));
+        return;
+      }
+
+      if (signal && signal.aborted) {
+        resolve(this.handleError(cmd, messageId, {
+          code: ErrorCode.RequestCancelled,
+          message: 'Request cancelled'
+        }));
+        return;
+      }
+
+      const message: Payload = {
+        cmd: cmd,
+        messageId: messageId,
+        ...payload
+      };
+      if (options.onProgress) message.progress = true;
+
+      // Make sure to clean up callbacks in error cases as well
+      const cleanupAndResolve = (error: ErrorResponse) => {
+        this.cleanupCallback(messageId);
+        resolve(error);
+      };
+
+      // The transport throws when the host cannot be reached
+      try {
+        this.messageCallbacks[messageId] = { resolve, reject, cmd, sentAt: Date.now(), onProgress: options.onProgress };
+        this.send(message as RequestMessage);
+        this.log('debug', `Sent ${cmd}`, message as RequestMessage);
+        
+        // Set timeout for commands that expect a response
+        const timeoutMs = options.timeout !== undefined ? options.timeout : this.defaultTimeoutFor(cmd);
+        if (timeoutMs > 0) {
+          this.messageCallbacks[messageId].timeoutMs = timeoutMs;
+          this.startTimeout(messageId);
+        }
+
+        if (signal) {
+          const onAbort = () => this.handleAbort(messageId, cmd);
+          signal.addEventListener('abort', onAbort);
+          this.messageCallbacks[messageId].removeAbortListener = () => signal.removeEventListener('abort', onAbort);
+        }
+      } catch (error) {
+        cleanupAndResolve(this.handleError(cmd, messageId, {
+          code: ErrorCode.HostUnavailable,
+          message: error instanceof Error ? error.message : 'Unable to send message to the host.'
+        }));
+      }
+    });
+  }
+
+  /**
+   * Hands a message to the transport. On a secure channel, every message
+   * after the handshake is sealed first, in order.
+   */
+  private send(message: RequestMessage) {
+    if (!this.secureSession || message.cmd === HANDSHAKE_COMMAND) {
+      this.transport.send(message);
+      return;
+    }
+
+    this.secureSession
+      .then(session => session ? session.seal(message) : Promise.reject(new Error('Secure channel is not established')))
+      .then(sealed => {
+        try {
+          this.transport.send(sealed);
+        } catch (error) {
+          this.failDelivery(message, ErrorCode.HostUnavailable, error instanceof Error ? error.message : 'Unable to send message to the host.');
+        }
+      }, error => {
+        this.failDelivery(message, ErrorCode.SecureChannelError, error instanceof Error ? error.message : 'Unable to seal the message');
+      });
+  }
+
+  /** Settles a request whose message could not be sent */
+  private failDelivery(message: RequestMessage, code: ErrorCode, errorMessage: string) {
+    const callback = this.messageCallbacks[message.messageId];
+    if (!callback) return;
+
+    this.cleanupCallback(message.messageId);
+    callback.resolve(this.handleError(message.cmd, message.messageId, { code, message: errorMessage }));
+  }
+
+  sendMessage<K extends CommandName>(cmd: K, ...args: CommandArgs<K>): Promise<Response<CommandResult<K>>>;
+  sendMessage<C extends string>(cmd: Exclude<C, CommandName>, payload?: Payload, options?: RequestOptions): Promise<Response>;
+  sendMessage(cmd: string, payload: Payload = {}, options: RequestOptions = {}): Promise<Response> {
+    const commandHandler = this.commandMap[cmd];
+    
+    // If the command does not exist, send the original message directly,
+    // once it passes the schema registered for it, if any
+    if (!commandHandler) {
+      const validate = commandValidators[cmd];
+      if (validate) {
+        const messageId = this.resolveMessageId(payload, options);
+        const error = this.validationError(cmd, messageId, validate(payload.data, payload.sign));
+        if (error) return error;
+        return this._sendMessage(cmd, payload, { ...options, messageId });
+      }
+      return this._sendMessage(cmd, payload, options);
+    }
+
+    // Add protection to prevent unknown type from causing recursion
+    const validTypes = ["callbackOnly", "payload", "signOnly", "payloadAndSign"]; 
+
+    // Extract messageId from payload for error handling
+    const messageId = this.resolveMessageId(payload, options);
+
+    if (!validTypes.includes(commandHandler.type)) {
+      return this._sendMessage(cmd, payload, options);
+    }
+    
+    try {
+      switch (commandHandler.type) {
+        case "callbackOnly":
+          return commandHandler.handler(options);
+        case "payload":
+          return commandHandler.handler(payload, options);
+        case "payloadAndSign":
+          return commandHandler.handler(payload.data, payload.sign, options);
+        case "signOnly":
+          return commandHandler.handler(payload.sign, options);
+        default:
+          return this._sendMessage(cmd, payload, options);
+      }
+    } catch (error) {
+      return this.settle(Promise.resolve(this.handleError(cmd, messageId, {
+        message: error instanceof Error ? error.message : 'Unknown error occurred',
+        code:ErrorCode.methodNotFound
+      })));
+    }
+  }
+
+  /**
+   * Sends a command and exposes the progress updates the host reports before
+   * the response, for long-running commands such as scanQRCode:
+   *
+   *   const scan = client.stream('scanQRCode');
+   *   for await (const progress of scan) showStage(progress.stage);
+   *   const response = await scan.response;
+   */
+  stream<K extends CommandName>(cmd: K, ...args: CommandArgs<K>): CommandStream<CommandResult<K>>;
+  stream<C extends string>(cmd: Exclude<C, CommandName>, payload?: Payload, options?: RequestOptions): CommandStream;
+  stream(cmd: string, payload: Payload = {}, options: RequestOptions = {}): CommandStream {
+    return createCommandStream(onProgress => this.sendMessage(cmd, payload, {
+      ...options,
+      onProgress: progress => {
+        if (options.onProgress) options.onProgress(progress);
+        onProgress(progress);
+      }
+    }));
+  }
+
+  /** Handles connectCocoPay message */
+  public connectCocoPay(payload: ConnectCocoPayRequest, options: RequestOptions = {}): Promise<Response<ConnectCocoPayResult>> {
+    const messageId = this.resolveMessageId(payload, options);
+    const error = this.validationError('connectCocoPay', messageId, validateConnectCocoPay(payload));
+    if (error) return error;
+
+    return this._sendMessage<ConnectCocoPayResult>('connectCocoPay', { data: payload }, { ...options, messageId });
+  }
+
+  /** Handles getSafeAreaInsets message */
+  public getSafeAreaInsets(options: RequestOptions = {}): Promise<Response<SafeAreaInsets>> {
+    return this._sendMessage<SafeAreaInsets>('getSafeAreaInsets', { data: {} }, options);
+  }
+
+  /** Handles getLanguage message */
+  public getLanguage(options: RequestOptions = {}): Promise<Response<LanguageInfo>> {
+    return this._sendMessage<LanguageInfo>('getLanguage', { data: {} }, options);
+  }
+
+  /** Handles openURL message */
+  public openURL(payload: OpenURLRequest, options: RequestOptions = {}): Promise<Response<void>> {
+    const messageId = this.resolveMessageId(payload, options);
+    const error = this.validationError('openURL', messageId, validateOpenURL(payload));
+    if (error) return error;
+
+    return this._sendMessage<void>('openURL', { data: payload }, { ...options, messageId });
+  }
+
+  /** Handles scanQRCode message */
+  public scanQRCode(options: RequestOptions = {}): Promise<Response<ScanQRCodeResult>> {
+    return this._sendMessage<ScanQRCodeResult>('scanQRCode', { data: {} }, options);
+  }
+
+  /** Handles copyToClipboard message */
+  public copyToClipboard(payload: CopyToClipboardRequest, options: RequestOptions = {}): Promise<Response<void>> {
+    const messageId = this.resolveMessageId(payload, options);
+    const error = this.validationError('copyToClipboard', messageId, validateCopyToClipboard(payload));
+    if (error) return error;
+
+    return this._sendMessage<void>('copyToClipboard', { data: payload }, { ...options, messageId });
+  }
+
+  /** Handles saveImage message */
+  public saveImage(payload: SaveImageRequest, options: TransferOptions = {}): Promise<Response<void>> {
+    const messageId = this.resolveMessageId(payload, options);
+    const check = validateSaveImage(payload);
+
+    if (this.needsTransfer(payload, check)) {
+      return this.transfer<void>('saveImage', payload, 'image', { ...options, messageId });
+    }
+
+    const error = this.validationError('saveImage', messageId, check);
+    if (error) return error;
+
+    // Upload progress only applies to chunked transfers
+    const { onProgress: _onProgress, chunkSize: _chunkSize, transferId: _transferId, ...requestOptions } = options;
+    return this._sendMessage<void>('saveImage', { data: payload }, { ...requestOptions, messageId });
+  }
+
+  /** Handles getAccount message */
+  public getAccount(payload?: GetAccountRequest, options: RequestOptions = {}): Promise<Response<AccountInfo>> {
+    const messageId = this.resolveMessageId(payload, options);
+    const error = this.validationError('getAccount', messageId, validateGetAccount(payload));
+    if (error) return error;
+
+    return this._sendMessage<AccountInfo>('getAccount', { data: payload || {} }, { ...options, messageId });
+  }
+
+  /** Handles setExtendedData message */
+  public setExtendedData(payload: SetExtendedDataRequest, options: RequestOptions = {}): Promise<Response<void>> {
+    const messageId = this.resolveMessageId(payload, options);
+    const error = this.validationError('setExtendedData', messageId, validateSetExtendedData(payload));
+    if (error) return error;
+
+    const response = this.request<void>('setExtendedData', { data: payload }, { ...options, messageId }).then(response => {
+      if (response.code === 200 && this.cache) {
+        this.cache.patch('getExtendedData', (data: ExtendedData) => ({ ...data, extend: payload.extend }));
+      }
+      return response;
+    });
+    return this.settle(response);
+  }
+
+  /** Handles getExtendedData message */
+  public getExtendedData(options: RequestOptions = {}): Promise<Response<ExtendedData>> {
+    return this._sendMessage<ExtendedData>('getExtendedData', { data: {} }, options);
+  }
+
+  /** Handles generateSignature message */
+  public generateSignature(payload: GenerateSignatureRequest, options: RequestOptions = {}): Promise<Response<SignatureResult>> {
+    const messageId = this.resolveMessageId(payload, options);
+    const error = this.validationError('generateSignature', messageId, validateGenerateSignature(payload));
+    if (error) return error;
+
+    return this._sendMessage<SignatureResult>('generateSignature', { data: payload }, { ...options, messageId });
+  }
+
+  /** Handles verifySignature message */
+  public verifySignature(payload: VerifySignatureRequest, options: RequestOptions = {}): Promise<Response<VerifySignatureResult>> {
+    const messageId = this.resolveMessageId(payload, options);
+    const error = this.validationError('verifySignature', messageId, validateVerifySignature(payload));
+    if (error) return error;
+
+    return this._sendMessage<VerifySignatureResult>('verifySignature', { data: payload }, { ...options, messageId });
+  }
+
+  /** Handles encrypt message */
+  public encrypt(payload: EncryptRequest, options: RequestOptions = {}): Promise<Response<EncryptResult>> {
+    const messageId = this.resolveMessageId(payload, options);
+    const error = this.validationError('encrypt', messageId, validateEncrypt(payload));
+    if (error) return error;
+
+    return this._sendMessage<EncryptResult>('encrypt', { data: payload }, { ...options, messageId });
+  }
+
+  /** Handles decrypt message */
+  public decrypt(payload: DecryptRequest, options: RequestOptions = {}): Promise<Response<DecryptResult>> {
+    const messageId = this.resolveMessageId(payload, options);
+    const error = this.validationError('decrypt', messageId, validateDecrypt(payload));
+    if (error) return error;
+
+    return this._sendMessage<DecryptResult>('decrypt', { data: payload }, { ...options, messageId });
+  }
+
+  /** Handles registerService message */
+  public registerService(payload: RegisterServiceRequest, sigInfo: SigInfo, options: ServiceRequestOptions = {}): Promise<Response<ServiceStatus>> {
+    const messageId = this.resolveMessageId(payload, options);
+    const error = this.validationError('registerService', messageId, validateRegisterService(payload, sigInfo));
+    if (error) return error;
+
+    return this.settle(this.requestWithRetry<ServiceStatus>('registerService', { data: payload, sign: sigInfo }, { ...options, messageId }));
+  }
+
+  /** Handles checkServiceStatus message */
+  public checkServiceStatus(sigInfo: SigInfo, options: ServiceRequestOptions = {}): Promise<Response<ServiceStatus>> {
+    const messageId = this.resolveMessageId(sigInfo, options);
+    const error = this.validationError('checkServiceStatus', messageId, validateCheckServiceStatus({}, sigInfo));
+    if (error) return error;
+
+    return this.settle(this.requestWithRetry<ServiceStatus>('checkServiceStatus', { data: {}, sign: sigInfo }, { ...options, messageId }));
+  }
+
+  /**
+   * Handles sendServiceMessage message. With an outbox configured, the message
+   * is stored first and the call settles once the host has answered it, after
+   * any earlier outbox messages.
+   */
+  public sendServiceMessage(payload: SendServiceMessageRequest, sigInfo: SigInfo, options: ServiceRequestOptions = {}): Promise<Response<any>> {
+    const messageId = this.resolveMessageId(payload, options);
+    const error = this.validationError('sendServiceMessage', messageId, validateSendServiceMessage(payload, sigInfo));
+    if (error) return error;
+
+    if (this.outbox) {
+      const entry: OutboxEntry = {
+        cmd: 'sendServiceMessage',
+        messageId,
+        idempotencyKey: options.idempotencyKey || generateUniqueMessageId(),
+        data: payload,
+        sign: sigInfo,
+        createdAt: Date.now()
+      };
+      if (options.timeout !== undefined) entry.timeout = options.timeout;
+      if (options.retry !== undefined) entry.retry = options.retry;
+      return this.settle(this.enqueue(entry, options.signal));
+    }
+
+    return this.settle(this.requestWithRetry<any>('sendServiceMessage', { data: payload, sign: sigInfo }, { ...options, messageId }));
+  }
+
+  /**
+   * Sends a signed HTTP request to a service with sendServiceMessage:
+   *
+   *   const response = await client.serviceFetch('https://api.example/orders', {
+   *     signer, method: 'POST', body: { item: 42 }
+   *   });
+   *   if (response.ok) render(await response.json());
+   *
+   * Like fetch, it resolves for every HTTP status; errors of the host or
+   * the channel reject with a RelayXError carrying their ErrorCode, also
+   * without `throwOnError`. Retries and the outbox apply as to sendServiceMessage.
+   */
+  public async serviceFetch(url: string, init: ServiceFetchInit): Promise<ServiceFetchResponse> {
+    const { signer, method, headers, body, ...options } = init;
+    const payload: SendServiceMessageRequest<'HTTP'> = { type: 'HTTP', content: buildServiceRequest(url, { method, headers, body }) };
+    const response = await settleAsResponse(this.sendServiceMessage(payload, await signer.sign(payload), options));
+    return readServiceResponse(url, response);
+  }
+
+  /**
+   * Sends a command, retrying failures the retry policy covers with
+   * exponential backoff. Every attempt carries the same idempotency key.
+   * Only the Self Service commands are retried.
+   */
+  private async requestWithRetry<T>(cmd: string, payload: Payload, options: ServiceRequestOptions): Promise<Response<T>> {
+    const { retry, idempotencyKey = generateUniqueMessageId(), ...requestOptions } = options;
+    const policy = retry === false || !RETRYABLE_COMMANDS.includes(cmd)
+      ? null
+      : retry ? resolveRetryPolicy({ ...this.retryPolicy, ...retry }) : this.retryPolicy;
+    const message = { ...payload, idempotencyKey };
+
+    let response = await this.request<T>(cmd, message, requestOptions);
+    for (let attempt = 1; policy && attempt < policy.maxAttempts && isRetryable(response, policy); attempt++) {
+      const interrupted = await this.wait(retryDelay(attempt, policy), requestOptions.signal);
+      if (interrupted) {
+        return this.handleError(cmd, response.messageId, interrupted);
+      }
+      response = await this.request<T>(cmd, message, requestOptions);
+    }
+    return response;
+  }
+
+  /** Waits before a retry, reporting why when the wait was cut short */
+  private wait(delay: number, signal?: AbortSignal): Promise<{ code: ErrorCode; message: string } | null> {
+    return new Promise(resolve => {
+      const onAbort = () => {
+        clearTimeout(timeoutId);
+        resolve({ code: ErrorCode.RequestCancelled, message: 'Request cancelled' });
+      };
+      const timeoutId = setTimeout(() => {
+        if (signal) signal.removeEventListener('abort', onAbort);
+        resolve(this.unsubscribe ? null : { code: ErrorCode.TimeoutError, message: 'Connection destroyed' });
+      }, delay);
+
+      if (signal) {
+        if (signal.aborted) return onAbort();
+        signal.addEventListener('abort', onAbort, { once: true });
+      }
+    });
+  }
+
+  /** Stores an outbox entry and resolves with its response once it is delivered */
+  private enqueue(entry: OutboxEntry, signal?: AbortSignal): Promise<Response> {
+    if (signal && signal.aborted) {
+      return Promise.resolve(this.handleError(entry.cmd, entry.messageId, { code: ErrorCode.RequestCancelled }));
+    }
+
+    return new Promise<Response>(resolve => {
+      this.outboxWaiters[entry.messageId] = { resolve };
+
+      // An entry cancelled before its delivery is dropped from the outbox
+      if (signal) {
+        const onAbort = () => {
+          this.updateOutbox(entries => entries.filter(item => item.messageId !== entry.messageId))
+            .then(() => this.settleOutboxEntry(entry, this.handleError(entry.cmd, entry.messageId, { code: ErrorCode.RequestCancelled }), false));
+        };
+        signal.addEventListener('abort', onAbort, { once: true });
+        this.outboxWaiters[entry.messageId].removeAbortListener = () => signal.removeEventListener('abort', onAbort);
+      }
+
+      this.updateOutbox(entries => [...entries, entry])
+        .then(() => this.flushOutbox())
+        .catch(error => this.settleOutboxEntry(entry, this.handleError(entry.cmd, entry.messageId, {
+          code: ErrorCode.InternalError,
+          message: error instanceof Error ? error.message : 'Unable to store the message'
+        }), false));
+    });
+  }
+
+  /**
+   * Delivers the stored outbox entries in order. Delivery stops at the first
+   * entry failing with a retryable error, which is kept; the remaining entries
+   * are sent on the next flush, started when the host answers again or the
+   * handshake completes. Entries the host answered, even with an error,
+   * are removed, as are failed entries sent with `retry: false`. The
+   * `timeout` and `retry` options of an entry apply to each of its attempts.
+   */
+  flushOutbox(): Promise<void> {
+    if (!this.outbox) return Promise.resolve();
+    if (!this.flushing) {
+      this.flushing = this.deliverOutbox()
+        .catch(() => {
+          // Storage failed; try again on the next flush
+          this.outboxStalled = true;
+        })
+        .finally(() => {
+          this.flushing = null;
+        });
+    }
+    return this.flushing;
+  }
+
+  private async deliverOutbox() {
+    this.outboxStalled = false;
+    const defaultPolicy = this.retryPolicy || resolveRetryPolicy({ maxAttempts: 1 });
+
+    for (;;) {
+      const [entry] = await this.updateOutbox(entries => entries);
+      if (!entry || !this.unsubscribe) return;
+
+      const { cmd, messageId, idempotencyKey, data, sign, timeout, retry } = entry;
+      const waiter = this.outboxWaiters[messageId];
+      const response = await this.requestWithRetry(cmd, sign ? { data, sign } : { data }, { messageId, idempotencyKey, timeout, retry });
+
+      // The entry may have been cancelled while it was being sent
+      if (waiter && !this.outboxWaiters[messageId]) continue;
+
+      const policy = retry === false ? null : retry ? resolveRetryPolicy({ ...defaultPolicy, ...retry }) : defaultPolicy;
+      if (policy && isRetryable(response, policy)) {
+        this.outboxStalled = true;
+        return;
+      }
+
+      await this.updateOutbox(entries => entries.filter(item => item.messageId !== messageId));
+      this.settleOutboxEntry(entry, response, true);
+    }
+  }
+
+  /** Resolves the caller waiting for an outbox entry and reports the response */
+  private settleOutboxEntry(entry: OutboxEntry, response: Response, delivered: boolean) {
+    const waiter = this.outboxWaiters[entry.messageId];
+    if (waiter) {
+      delete this.outboxWaiters[entry.messageId];
+      if (waiter.removeAbortListener) waiter.removeAbortListener();
+      waiter.resolve(response);
+    }
+    if (delivered && this.onOutboxSettled) {
+      this.onOutboxSettled(entry, response);
+    }
+  }
+
+  /** Applies a change to the stored outbox entries, one change at a time */
+  private updateOutbox(change: (entries: OutboxEntry[]) => OutboxEntry[]): Promise<OutboxEntry[]> {
+    const outbox = this.outbox!;
+    const result = this.outboxLock.then(async () => {
+      const entries = await outbox.load();
+      const updated = change(entries);
+      if (updated !== entries) await outbox.save(updated);
+      return updated;
+    });
+    this.outboxLock = result.catch(() => undefined);
+    return result;
+  }
+
+  /** Subscribes to an event pushed by the host */
+  on<E extends HostEventName>(event: E, listener: HostEventListener<HostEventMap[E]>): this;
+  on<E extends string>(event: Exclude<E, HostEventName>, listener: HostEventListener): this;
+  on(event: string, listener: HostEventListener): this {
+    return this.addEventListener(event, listener, false);
+  }
+
+  /** Subscribes to the next occurrence of an event pushed by the host */
+  once<E extends HostEventName>(event: E, listener: HostEventListener<HostEventMap[E]>): this;
+  once<E extends string>(event: Exclude<E, HostEventName>, listener: HostEventListener): this;
+  once(event: string, listener: HostEventListener): this {
+    return this.addEventListener(event, listener, true);
+  }
+
+  /**
+   * Removes a listener added with `on` or `once`.
+   * Without a listener, every subscription to the event is removed.
+   */
+  off(event: string, listener?: HostEventListener): this {
+    if (!listener) {
+      delete this.eventListeners[event];
+      return this;
+    }
+
+    const remaining = (this.eventListeners[event] || []).filter(entry => entry.listener !== listener);
+    if (remaining.length) {
+      this.eventListeners[event] = remaining;
+    } else {
+      delete this.eventListeners[event];
+    }
+    return this;
+  }
+
+  private addEventListener(event: string, listener: HostEventListener, once: boolean): this {
+    (this.eventListeners[event] = this.eventListeners[event] || []).push({ listener, once });
+    return this;
+  }
+
+  /** Keeps cached values in line with the changes the host announces */
+  private cacheEvent(event: string, data: any) {
+    if (!this.cache) return;
+
+    if (event === 'languageChange') {
+      this.cache.update('getLanguage', data);
+    } else if (event === 'safeAreaChange') {
+      this.cache.update('getSafeAreaInsets', data);
+    } else if (event === 'accountChange') {
+      this.cache.invalidate('getAccount');
+    }
+  }
+
+  /** Invokes the listeners of a host-pushed event */
+  private emitEvent(event: string, data: any) {
+    const entries = this.eventListeners[event];
+    if (!entries) return;
+
+    // Drop one-time listeners before invoking, so a throwing listener cannot fire twice
+    const remaining = entries.filter(entry => !entry.once);
+    if (remaining.length) {
+      this.eventListeners[event] = remaining;
+    } else {
+      delete this.eventListeners[event];
+    }
+
+    entries.forEach(entry => entry.listener(data));
+  }
+
+  /**
+   * Sets up a listener for messages from the host.
+   * When a message is received, it checks for a matching callback by messageId
+   * and invokes it with the result. Messages carrying an `event` name instead
+   * are dispatched to the listeners subscribed with `on`/`once`.
+   */
+  private messageHandler(message: TransportMessage) {
+    if (this.secureSession) {
+      if (isSealed(message.data)) {
+        // Other secure clients sharing the transport have channels of their own
+        if (message.data.sealed.channel === this.channel) this.openMessage(message);
+        return;
+      }
+
+      // Once the channel is secure, anyone may have posted a message in clear
+      if (this.sessionEstablished) {
+        this.log('debug', `Ignored a message in clear from ${message.origin || 'the transport'} on the secure channel`, { messageId: '' });
+        return;
+      }
+    }
+    this.handleMessage(message);
+  }
+
+  /** Opens sealed messages in the order they arrived, then handles them */
+  private openMessage(message: TransportMessage) {
+    const sealed = message.data;
+    this.receiving = this.receiving
+      .then(() => this.secureSession)
+      .then(session => session ? session.open(sealed) : null)
+      .then(opened => {
+        if (opened) {
+          this.handleMessage({ ...message, data: opened });
+        } else {
+          this.log('warn', 'Dropped a sealed message that could not be opened or was replayed', { messageId: '' });
+        }
+      })
+      .catch(error => {
+        this.log('error', `Failed to handle a sealed message: ${error instanceof Error ? error.message : error}`, { messageId: '' });
+      });
+  }
+
+  /** Handles a message received in clear or opened from the secure channel */
+  private handleMessage(message: TransportMessage) {
+    const result = message.data;
+    if (result && typeof result === 'object' && typeof result.event === 'string' && !('messageId' in result)) {
+      if (message.trusted) {
+        this.log('debug', `Received event ${result.event}`, { messageId: '', ...result });
+        this.cacheEvent(result.event, result.data);
+        this.emitEvent(result.event, result.data);
+      } else {
+        this.log('warn', `Ignored event ${result.event} from untrusted origin ${message.origin}`, { messageId: '', event: result.event });
+      }
+      return;
+    }
+
+    if (result && typeof result === 'object' && typeof result.messageId === 'string') {
+      const messageId = result.messageId;
+      const callback = this.messageCallbacks[messageId];
+
+      // Progress updates keep the request pending and restart its timeout
+      if (callback && 'progress' in result && !('code' in result)) {
+        if (message.trusted && callback.onProgress) {
+          this.log('debug', `Progress of ${callback.cmd}`, { cmd: callback.cmd, messageId, progress: result.progress });
+          this.startTimeout(messageId);
+          callback.onProgress(result.progress);
+        }
+        return;
+      }
+      
+      if (callback) {
+        this.cleanupCallback(messageId);
+
+        // Never hand data from an unexpected frame or origin to the caller
+        if (!message.trusted) {
+          callback.resolve(this.handleError(callback.cmd, messageId, {
+            code: ErrorCode.UntrustedOrigin,
+            message: `Response from untrusted origin ${message.origin}`
+          }));
+          return;
+        }
+
+        const elapsed = Date.now() - callback.sentAt;
+        if (result.code === 200) {
+          this.log('debug', `Received ${callback.cmd} after ${elapsed}ms`, result);
+        } else {
+          this.log('warn', `${callback.cmd} failed with ${result.code} after ${elapsed}ms: ${result.message || 'no message'}`, result);
+        }
+        callback.resolve(result);
+
+        // The host answers again, so messages it missed can go out
+        if (this.outboxStalled && !this.flushing) this.flushOutbox();
+      }
+    }
+  }
+
+  /** Destruction method: remove monitoring and clean up callbacks */
+  destroy() {
+    if (this.unsubscribe) {
+      this.unsubscribe();
+      this.unsubscribe = null;
+    }
+    if (this.fallback) {
+      this.fallback.close();
+    }
+    if (this.cache) {
+      this.cache.clear();
+    }
+
+    // Clear all pending callbacks
+    Object.keys(this.messageCallbacks).forEach(messageId => {
+      const callback = this.messageCallbacks[messageId];
+      if (callback) {
+        callback.resolve(this.handleError(callback.cmd, messageId, {
+          code: ErrorCode.TimeoutError,
+          message: 'Connection destroyed'
+        }));
+        
+        if (callback.timeoutId) {
+          clearTimeout(callback.timeoutId);
+        }
+        if (callback.removeAbortListener) {
+          callback.removeAbortListener();
+        }
+      }
+    });
+    
+    this.messageCallbacks = {};
+    this.eventListeners = {};
+
+    // Undelivered outbox entries stay stored for the next session
+    Object.keys(this.outboxWaiters).forEach(messageId => {
+      const waiter = this.outboxWaiters[messageId];
+      if (waiter.removeAbortListener) waiter.removeAbortListener();
+      waiter.resolve(this.handleError('sendServiceMessage', messageId, {
+        code: ErrorCode.TimeoutError,
+        message: 'Connection destroyed'
+      }));
+    });
+    this.outboxWaiters = {};
+  }
+}
+
+export { RelayXClient };
+export default RelayXClient;
@@ -0,0 +1,265 @@
+import { RetryPolicy } from "./retry";
+import { BinaryInput, TransferProgress } from "./transfer";
+import { Response } from "./types";
+
+/**
+ * Request and response types of the built-in commands.
+ * Result shapes list the fields RelayApp documents and stay open to additional fields.
+ */
+
+// Fields accepted by every command payload
+export interface RequestBase {
+  messageId?: string; // Optional unique identifier for the message
+}
+
+// Signature information required by the Self Service commands
+export interface SigInfo {
+  content: string;
+  signature: string;
+  messageId?: string;
+}
+
+export interface ConnectCocoPayRequest extends RequestBase {
+  chainList: string[];
+  walletSupports?: string[];
+}
+
+export interface ConnectCocoPayResult {
+  address?: string;
+  chain?: string;
+  wallet?: string;
+  [key: string]: any;
+}
+
+export interface SafeAreaInsets {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+export interface LanguageInfo {
+  language: string;
+  [key: string]: any;
+}
+
+export interface OpenURLRequest extends RequestBase {
+  url: string; // https URL, at most 200 characters
+  useSystemOpen?: boolean;
+}
+
+export interface ScanQRCodeResult {
+  content: string;
+  [key: string]: any;
+}
+
+export interface CopyToClipboardRequest extends RequestBase {
+  text: string;
+}
+
+export interface SaveImageRequest extends RequestBase {
+  image: BinaryInput; // data:image/ base64 URI, Blob/File, ArrayBuffer or typed array
+  mimeType?: string; // Image MIME type of binary inputs that do not carry one
+}
+
+export interface GetAccountRequest extends RequestBase {
+  type?: "1";
+}
+
+export interface AccountInfo {
+  address?: string;
+  publicKey?: string;
+  [key: string]: any;
+}
+
+export interface SetExtendedDataRequest extends RequestBase {
+  extend: object | string;
+}
+
+export interface ExtendedData {
+  extend?: object | string;
+  [key: string]: any;
+}
+
+export interface GenerateSignatureRequest extends RequestBase {
+  message: string;
+}
+
+export interface SignatureResult {
+  signature: string;
+  [key: string]: any;
+}
+
+export interface VerifySignatureRequest extends RequestBase {
+  message: string;
+  signature: string;
+}
+
+export interface VerifySignatureResult {
+  result: boolean;
+  [key: string]: any;
+}
+
+export interface EncryptRequest extends RequestBase {
+  message: string;
+}
+
+export interface EncryptResult {
+  content: string;
+  [key: string]: any;
+}
+
+export interface DecryptRequest extends RequestBase {
+  content: string;
+}
+
+export interface DecryptResult {
+  message: string;
+  [key: string]: any;
+}
+
+export interface RegisterServiceRequest extends RequestBase {
+  serviceKey: string;
+}
+
+export interface ServiceStatus {
+  status?: string | number;
+  [key: string]: any;
+}
+
+// HTTP request carried by a sendServiceMessage of type HTTP, as built by serviceFetch
+export interface ServiceHttpRequest {
+  method: string; // Upper-case HTTP method
+  url: string;
+  headers: { [name: string]: string }; // Lower-case header names
+  body?: string;
+}
+
+// Data of the host's response to a sendServiceMessage of type HTTP
+export interface ServiceHttpResponse {
+  status: number;
+  statusText?: string;
+  headers?: { [name: string]: string };
+  body?: string;
+}
+
+// Content of sendServiceMessage by message type. Types added with
+// registerServiceMessageType extend this map by declaration merging.
+export interface ServiceMessageMap {
+  HTTP: { [key: string]: any }; // A ServiceHttpRequest when sent by serviceFetch
+}
+
+export type ServiceMessageType = keyof ServiceMessageMap;
+
+export interface SendServiceMessageRequest<T extends ServiceMessageType = ServiceMessageType> extends RequestBase {
+  type: T;
+  content: ServiceMessageMap[T];
+}
+
+// Shapes of the `payload` argument of sendMessage, by command parameter type.
+// Registered commands use them to extend CommandMap by declaration merging.
+export interface Command<Req, Res> {
+  request: Req;
+  response: Res;
+  params: Req;
+}
+
+export interface SignedCommand<Req, Res> {
+  request: Req;
+  response: Res;
+  params: { data: Req; sign: SigInfo };
+}
+
+export interface SignOnlyCommand<Res> {
+  request: RequestBase;
+  response: Res;
+  params: { sign: SigInfo };
+}
+
+// Built-in commands with their request, response and sendMessage parameter types
+export interface CommandMap {
+  connectCocoPay: Command<ConnectCocoPayRequest, ConnectCocoPayResult>;
+  getSafeAreaInsets: Command<RequestBase, SafeAreaInsets>;
+  getLanguage: Command<RequestBase, LanguageInfo>;
+  openURL: Command<OpenURLRequest, void>;
+  scanQRCode: Command<RequestBase, ScanQRCodeResult>;
+  copyToClipboard: Command<CopyToClipboardRequest, void>;
+  saveImage: Command<SaveImageRequest, void>;
+  getAccount: Command<GetAccountRequest, AccountInfo>;
+  setExtendedData: Command<SetExtendedDataRequest, void>;
+  getExtendedData: Command<RequestBase, ExtendedData>;
+  generateSignature: Command<GenerateSignatureRequest, SignatureResult>;
+  verifySignature: Command<VerifySignatureRequest, VerifySignatureResult>;
+  encrypt: Command<EncryptRequest, EncryptResult>;
+  decrypt: Command<DecryptRequest, DecryptResult>;
+  registerService: SignedCommand<RegisterServiceRequest, ServiceStatus>;
+  checkServiceStatus: SignOnlyCommand<ServiceStatus>;
+  sendServiceMessage: SignedCommand<SendServiceMessageRequest, any>;
+}
+
+export type CommandName = keyof CommandMap;
+
+export type CommandRequest<K extends CommandName> = CommandMap[K]['request'];
+
+export type CommandResult<K extends CommandName> = CommandMap[K]['response'];
+
+export type CommandParams<K extends CommandName> = CommandMap[K]['params'];
+
+// Intermediate state reported by a long-running command, such as scanQRCode or connectCocoPay
+export interface ProgressUpdate {
+  stage?: string; // e.g. "cameraOpened", "walletSelected" or "awaitingConfirmation"
+  percent?: number;
+  [key: string]: any;
+}
+
+// Per-call options accepted by every command method and sendMessage
+export interface RequestOptions {
+  timeout?: number; // Milliseconds to wait for the response, 0 disables the timeout; restarted by every progress update
+  signal?: AbortSignal; // Cancels the request when aborted
+  messageId?: string; // Identifier sent over the wire instead of a generated one
+  onProgress?: (progress: ProgressUpdate) => void; // Receives the progress updates the host sends before the response
+  refresh?: boolean; // Asks the host again instead of answering from the client's cache
+}
+
+// Options of commands that may send their payload as a chunked transfer; onProgress reports the upload
+export interface TransferOptions extends Omit<RequestOptions, 'onProgress'> {
+  chunkSize?: number; // Raw bytes per chunk
+  transferId?: string; // Reuse the id of a failed transfer to resume it
+  onProgress?: (progress: TransferProgress) => void;
+}
+
+// Options of the Self Service commands, which may be retried
+export interface ServiceRequestOptions extends RequestOptions {
+  retry?: Partial<RetryPolicy> | false; // Overrides the client's retry policy, false disables retries
+  idempotencyKey?: string; // Key identifying the command across retries, generated when omitted
+}
+
+// sendMessage arguments: the payload may be omitted when every field is optional
+export type CommandArgs<K extends CommandName> =
+  {} extends CommandParams<K>
+    ? [payload?: CommandParams<K>, options?: RequestOptions]
+    : [payload: CommandParams<K>, options?: RequestOptions];
+
+// Events the host pushes to the mini-app without a prior request
+export interface HostEventMap {
+  languageChange: LanguageInfo;
+  safeAreaChange: SafeAreaInsets;
+  accountChange: AccountInfo;
+  appForeground: void;
+  appBackground: void;
+  serviceMessage: any;
+}
+
+export type HostEventName = keyof HostEventMap;
+
+export type HostEventListener<T = any> = (data: T) => void;
+
+// An entry of client.batch(): a command with its sendMessage payload and options
+export type BatchEntry =
+  | { [K in CommandName]: { cmd: K; payload?: CommandParams<K>; options?: RequestOptions } }[CommandName]
+  | { cmd: string; payload?: { [key: string]: any }; options?: RequestOptions };
+
+// Results of client.batch(), in the order of the entries
+export type BatchResults<T extends BatchEntry[]> = {
+  [I in keyof T]: Response<T[I] extends { cmd: infer K } ? (K extends CommandName ? CommandResult<K> : any) : any>
+};
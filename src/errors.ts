@@ -0,0 +1,39 @@
+import { ErrorCode, ErrorResponse, Response } from "./types";
+
+/**
+ * Error thrown for failed commands when the client is created with
+ * `throwOnError`, carrying the fields of the ErrorResponse.
+ */
+export class RelayXError extends Error {
+  readonly code: ErrorCode;
+  readonly cmd: string;
+  readonly messageId: string;
+  readonly data?: any;
+
+  constructor(response: ErrorResponse) {
+    super(response.message || 'An error occurred');
+    this.name = 'RelayXError';
+    this.code = response.code;
+    this.cmd = response.cmd || '';
+    this.messageId = response.messageId;
+    this.data = response.data;
+  }
+
+  /** The error as the ErrorResponse it was created from */
+  toResponse(): ErrorResponse {
+    const response: ErrorResponse = { code: this.code, cmd: this.cmd, messageId: this.messageId, message: this.message };
+    if (this.data !== undefined) response.data = this.data;
+    return response;
+  }
+}
+
+/**
+ * Resolves a command call with its response, also when it rejected with a
+ * RelayXError because the client was created with `throwOnError`.
+ */
+export function settleAsResponse<T>(promise: Promise<Response<T>>): Promise<Response<T>> {
+  return promise.catch(error => {
+    if (error instanceof RelayXError) return error.toResponse();
+    throw error;
+  });
+}
@@ -0,0 +1,160 @@
+import { CommandName } from "./commands";
+import { RelayXError } from "./errors";
+import { HostHandler, RelayXHost } from "./host";
+import { ANY_COMMAND, HANDSHAKE_COMMAND } from "./protocol";
+import { InMemoryTransport, Transport, TransportListener } from "./transport";
+import { ErrorCode } from "./types";
+import { createErrorResponse } from "./utils";
+
+/**
+ * Fallback for mini-apps opened in a regular browser tab, where there is no
+ * container to answer commands. Commands with a web equivalent are answered
+ * with browser APIs; every other command fails at once with `NotInContainer`
+ * instead of waiting for its timeout.
+ */
+
+// Commands answered with browser APIs when the fallback is enabled
+export const FALLBACK_COMMANDS: CommandName[] = ['copyToClipboard', 'openURL', 'saveImage', 'getLanguage', 'getSafeAreaInsets'];
+
+/**
+ * Whether the page is embedded in the RelayApp container. A page opened in
+ * a browser tab is its own parent, and there is no window at all under Node.
+ */
+export function isInContainer(): boolean {
+  return typeof window !== 'undefined' && window.parent !== window;
+}
+
+export interface BrowserFallbackOptions {
+  commands?: string[]; // Commands answered with browser APIs, FALLBACK_COMMANDS by default
+}
+
+/** Error for a command that needs the container */
+function notInContainer(cmd: string, messageId: string): RelayXError {
+  return new RelayXError(createErrorResponse(cmd, messageId, {
+    code: ErrorCode.NotInContainer,
+    message: `Command ${cmd} is not available outside the RelayApp container`
+  }));
+}
+
+/** Error for a browser API the page cannot use */
+function unavailable(cmd: string, messageId: string, api: string): RelayXError {
+  return new RelayXError(createErrorResponse(cmd, messageId, {
+    code: ErrorCode.NotInContainer,
+    message: `${api} is not available in this browser`
+  }));
+}
+
+/** Reads the CSS env() safe area insets of the page */
+function readSafeAreaInsets() {
+  const probe = document.createElement('div');
+  probe.style.cssText = 'position:fixed;visibility:hidden;pointer-events:none;' +
+    'padding:env(safe-area-inset-top,0px) env(safe-area-inset-right,0px) env(safe-area-inset-bottom,0px) env(safe-area-inset-left,0px)';
+  document.body.appendChild(probe);
+  const style = getComputedStyle(probe);
+  const insets = {
+    top: parseFloat(style.paddingTop) || 0,
+    right: parseFloat(style.paddingRight) || 0,
+    bottom: parseFloat(style.paddingBottom) || 0,
+    left: parseFloat(style.paddingLeft) || 0
+  };
+  probe.remove();
+  return insets;
+}
+
+// Browser equivalents of container commands
+const webHandlers: { [cmd: string]: HostHandler } = {
+  async copyToClipboard({ text }, { cmd, messageId }) {
+    if (typeof navigator === 'undefined' || !navigator.clipboard) throw unavailable(cmd, messageId, 'The Clipboard API');
+    await navigator.clipboard.writeText(text);
+  },
+
+  openURL({ url }, { cmd, messageId }) {
+    if (typeof window === 'undefined') throw unavailable(cmd, messageId, 'window.open');
+    window.open(url, '_blank', 'noopener');
+  },
+
+  // The image always arrives as a data URI, chunked transfers included
+  saveImage({ image }, { cmd, messageId }) {
+    if (typeof document === 'undefined') throw unavailable(cmd, messageId, 'Downloading files');
+    const mimeType = /^data:image\/([\w.-]+)/.exec(image);
+    const link = document.createElement('a');
+    link.href = image;
+    link.download = `image.${mimeType ? mimeType[1] : 'png'}`;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+  },
+
+  getLanguage(_data, { cmd, messageId }) {
+    if (typeof navigator === 'undefined') throw unavailable(cmd, messageId, 'navigator.language');
+    return { language: navigator.language };
+  },
+
+  getSafeAreaInsets(_data, { cmd, messageId }) {
+    if (typeof document === 'undefined' || !document.body) throw unavailable(cmd, messageId, 'CSS env()');
+    return readSafeAreaInsets();
+  }
+};
+
+/**
+ * Transport answering commands in the page itself, used by RelayXClient
+ * outside the container. Requests go through an in-memory RelayXHost, so
+ * they are validated, batched and chunked exactly as in the container, and
+ * the handshake lists the commands that have a browser equivalent.
+ */
+class BrowserFallbackTransport implements Transport {
+  private readonly clientSide: InMemoryTransport;
+  private readonly hostSide: InMemoryTransport;
+  private readonly host: RelayXHost;
+  private readonly stopEvents: () => void;
+
+  constructor(options: BrowserFallbackOptions = {}) {
+    [this.clientSide, this.hostSide] = InMemoryTransport.createPair();
+    this.host = new RelayXHost({
+      transport: this.hostSide,
+      defaultHandler: (_data, { cmd, messageId }) => {
+        throw notInContainer(cmd, messageId);
+      }
+    });
+
+    const commands = options.commands || FALLBACK_COMMANDS;
+    commands.forEach(cmd => {
+      if (webHandlers[cmd]) this.host.handle(cmd, webHandlers[cmd]);
+    });
+
+    // Mirror the languageChange event of the container
+    const onLanguageChange = () => this.host.emit(this.hostSide, 'languageChange', { language: navigator.language });
+    if (commands.includes('getLanguage') && typeof window !== 'undefined') {
+      window.addEventListener('languagechange', onLanguageChange);
+      this.stopEvents = () => window.removeEventListener('languagechange', onLanguageChange);
+    } else {
+      this.stopEvents = () => {};
+    }
+  }
+
+  send(message: any) {
+    this.clientSide.send(message);
+  }
+
+  subscribe(listener: TransportListener): () => void {
+    return this.clientSide.subscribe(message => {
+      // The default handler only refuses commands, so the handshake lists those with a web equivalent alone
+      const { data } = message;
+      if (data && data.cmd === HANDSHAKE_COMMAND && data.code === 200 && data.data && Array.isArray(data.data.commands)) {
+        const commands = data.data.commands.filter((cmd: string) => cmd !== ANY_COMMAND);
+        listener({ ...message, data: { ...data, data: { ...data.data, commands } } });
+        return;
+      }
+      listener(message);
+    });
+  }
+
+  /** Stops answering commands */
+  close() {
+    this.stopEvents();
+    this.host.destroy();
+    this.clientSide.close();
+  }
+}
+
+export { BrowserFallbackTransport };
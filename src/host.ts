@@ -0,0 +1,573 @@
+import { CommandName, CommandRequest, CommandResult, HostEventMap, HostEventName, ProgressUpdate, SigInfo } from "./commands";
+import { ANY_COMMAND, BATCH_COMMAND, HANDSHAKE_COMMAND, PROTOCOL_VERSION, VERSION } from "./protocol";
+import {
+  DEFAULT_MAX_TRANSFER_SIZE,
+  TRANSFER_CHUNK_COMMAND,
+  TRANSFER_START_COMMAND,
+  TransferChunkRequest,
+  TransferReference,
+  TransferStartRequest,
+  TransferStartResult,
+  base64ToBytes,
+  bytesToBase64,
+  crc32
+} from "./transfer";
+import { SecureSession, createKeyExchange, isSealed } from "./secure";
+import { SIGNED_COMMANDS, ServiceVerifier, hashBody } from "./signing";
+import { Transport, TransportMessage } from "./transport";
+import { ErrorCode, ErrorResponse, EventMessage, HandshakeInfo, Payload, ProgressMessage, RequestMessage, Response } from "./types";
+import { createErrorResponse } from "./utils";
+import { commandValidators } from "./validation";
+
+// Context passed to a host handler alongside the request data
+export interface HostRequestContext {
+  cmd: string;
+  messageId: string;
+  sign?: Payload;
+  origin: string;
+  source: MessageEventSource | null;
+  progress: (update: ProgressUpdate) => void; // Reports an intermediate state, ignored when the client did not ask for progress
+}
+
+// A handler returns (or resolves with) the `data` of the success response
+export type HostHandler = (data: Payload, context: HostRequestContext) => any;
+
+export interface RelayXHostConfig {
+  target?: Window; // Window to listen on, defaults to the current window
+  transport?: Transport; // Channel to a single mini-app, used instead of window messages when set
+  maxTransferSize?: number; // Largest chunked transfer accepted, in bytes
+  verifier?: ServiceVerifier; // Checks the signatures of Self Service commands before their handlers run
+  defaultHandler?: HostHandler; // Answers commands without a handler of their own, which otherwise fail with methodNotFound
+  onRequest?: (message: RequestMessage, context: Pick<HostRequestContext, 'origin' | 'source'>) => void; // Observes each request before it is answered, sealed ones once opened
+}
+
+// Chunked transfer being received, see transfer.ts
+interface IncomingTransfer {
+  request: TransferStartRequest;
+  chunks: (Uint8Array | undefined)[];
+  updatedAt: number;
+}
+
+const TRANSFER_EXPIRY = 10 * 60 * 1000; // Incomplete transfers are dropped after 10 minutes of inactivity
+const IDEMPOTENCY_EXPIRY = 10 * 60 * 1000; // Responses to idempotent commands are replayed for 10 minutes
+
+// RelayXHost class to receive and answer commands posted by embedded mini-apps
+class RelayXHost {
+  private handlers: { [cmd: string]: HostHandler } = {};
+  private readonly target: Window | null;
+  private listenerFn: ((event: MessageEvent<any>) => void) | null = null;
+  private unsubscribe: (() => void) | null = null;
+  private transfers: { [transferId: string]: IncomingTransfer } = {};
+  private idempotentResponses: { [key: string]: { response: Promise<Response>; fingerprint: string; expiresAt: number } } = {};
+  private readonly maxTransferSize: number;
+  private readonly verifier: ServiceVerifier | null;
+  private readonly defaultHandler: HostHandler | null;
+  private sessions: WeakMap<object, Map<string, SecureSession>> = new WeakMap(); // Secure channels by transport or frame window, then by channel id
+  private readonly onRequest: RelayXHostConfig['onRequest'] | null;
+  private senders: WeakMap<object, number> = new WeakMap(); // Ids of the frames that sent requests, scoping their idempotency keys
+  private senderCount = 0;
+
+  constructor(config: RelayXHostConfig = {}) {
+    this.maxTransferSize = config.maxTransferSize || DEFAULT_MAX_TRANSFER_SIZE;
+    this.verifier = config.verifier || null;
+    this.defaultHandler = config.defaultHandler || null;
+    this.onRequest = config.onRequest || null;
+
+    const transport = config.transport;
+    if (transport) {
+      this.target = null;
+      this.unsubscribe = transport.subscribe(message => this.transportHandler(transport, message));
+    } else {
+      this.target = config.target || window;
+      this.listenerFn = this.messageHandler.bind(this);
+      this.target.addEventListener("message", this.listenerFn);
+    }
+  }
+
+  /**
+   * Registers the handler answering a command. Incoming payloads are checked
+   * with the same validation as RelayXClient before the handler is invoked.
+   * A handler may throw an error carrying an ErrorCode `code` to reply with
+   * that code; any other exception is reported as `InternalError`.
+   */
+  handle<K extends CommandName>(
+    cmd: K,
+    handler: (data: CommandRequest<K>, context: HostRequestContext) => CommandResult<K> | Promise<CommandResult<K>>
+  ): this;
+  handle<C extends string>(cmd: Exclude<C, CommandName>, handler: HostHandler): this;
+  handle(cmd: string, handler: HostHandler): this {
+    this.handlers[cmd] = handler;
+    return this;
+  }
+
+  /** Removes the handler of a command */
+  removeHandler(cmd: string): this {
+    delete this.handlers[cmd];
+    return this;
+  }
+
+  /**
+   * Pushes an event to a mini-app frame, delivered to its `on`/`once` listeners.
+   * Once the frame has secure channels, the event is sent sealed on each of them.
+   *
+   * @param target - The mini-app window (e.g. `iframe.contentWindow`), or the transport to the mini-app
+   * @param event - The event name
+   * @param data - The event data
+   * @param targetOrigin - The origin the mini-app must have, `'*'` by default
+   */
+  emit<E extends HostEventName>(target: MessageEventSource | Transport, event: E, data?: HostEventMap[E], targetOrigin?: string): void;
+  emit<E extends string>(target: MessageEventSource | Transport, event: Exclude<E, HostEventName>, data?: any, targetOrigin?: string): void;
+  emit(target: MessageEventSource | Transport, event: string, data?: any, targetOrigin: string = '*') {
+    const message: EventMessage = { event, data };
+    const post = (posted: Payload) => {
+      if (this.isTransport(target)) {
+        target.send(posted);
+      } else {
+        (target as Window).postMessage(posted, { targetOrigin });
+      }
+    };
+
+    const sessions = this.sessions.get(target);
+    if (sessions && sessions.size) {
+      sessions.forEach(session => {
+        session.seal(message).then(post, () => {});
+      });
+    } else {
+      post(message);
+    }
+  }
+
+  /**
+   * Validates a request and runs its handler.
+   * Always resolves with the response to post back to the mini-app.
+   *
+   * @param message - The request
+   * @param context - Origin and source of the request
+   * @param sendProgress - Posts progress messages to the mini-app while the handler runs
+   */
+  async dispatch(
+    message: RequestMessage,
+    context: Partial<HostRequestContext> = {},
+    sendProgress?: (message: ProgressMessage) => void
+  ): Promise<Response> {
+    const { cmd, messageId, data, sign } = message;
+
+    if (cmd === HANDSHAKE_COMMAND) {
+      return { code: 200, cmd, messageId, data: this.getHandshakeInfo() };
+    }
+    if (cmd === TRANSFER_START_COMMAND) {
+      return this.startTransfer(messageId, data as Partial<TransferStartRequest>);
+    }
+    if (cmd === TRANSFER_CHUNK_COMMAND) {
+      return this.receiveChunk(messageId, data as Partial<TransferChunkRequest>);
+    }
+    if (cmd === BATCH_COMMAND) {
+      return this.dispatchBatch(messageId, data, context);
+    }
+
+    const handler = this.handlers[cmd] || this.defaultHandler;
+
+    if (!handler) {
+      return createErrorResponse(cmd, messageId, {
+        code: ErrorCode.methodNotFound,
+        message: `Command ${cmd} is not supported`
+      });
+    }
+
+    // Put the reassembled content of a chunked transfer back in place
+    let payload = data;
+    if (message.transfer) {
+      const assembled = this.completeTransfer(cmd, messageId, message.transfer);
+      if (typeof assembled !== 'string') return assembled;
+      payload = { ...data, [message.transfer.field]: assembled };
+    }
+
+    const validate = commandValidators[cmd];
+    const signed = !!this.verifier && SIGNED_COMMANDS.includes(cmd);
+    const check = validate ? validate(payload as Payload, sign, {
+      transferred: !!message.transfer,
+      signatureWindow: signed ? this.verifier!.replayWindow : undefined
+    }) : { isValid: true };
+    if (!check.isValid) {
+      return createErrorResponse(cmd, messageId, {
+        code: check.errorCode,
+        message: check.errorMessage,
+        data: check.errors && { errors: check.errors }
+      });
+    }
+
+    const progress = message.progress && sendProgress
+      ? (update: ProgressUpdate) => sendProgress({ cmd, messageId, progress: update })
+      : () => {};
+    const handlerContext: HostRequestContext = { origin: '', source: null, ...context, cmd, messageId, sign, progress };
+    // Every signed request is verified, also those a replayed response answers
+    if (signed) {
+      let verified;
+      try {
+        verified = await this.verifier!.verify(sign as SigInfo, payload, message.idempotencyKey);
+      } catch (error) {
+        // e.g. the lookup of the service's public key failed, which a retry may get past
+        return createErrorResponse(cmd, messageId, {
+          code: ErrorCode.InternalError,
+          message: `Unable to verify the signature: ${error instanceof Error ? error.message : error}`
+        });
+      }
+      if (!verified.isValid) {
+        return createErrorResponse(cmd, messageId, { code: verified.errorCode, message: verified.errorMessage });
+      }
+    }
+
+    const run = () => this.runHandler(handler, payload || {}, handlerContext);
+    if (typeof message.idempotencyKey === 'string' && message.idempotencyKey) {
+      const fingerprint = await hashBody({ data: payload, sign });
+      const response = await this.runIdempotent(`${this.senderKey(context)}\n${cmd}:${message.idempotencyKey}`, fingerprint, run);
+      if (!response) {
+        return createErrorResponse(cmd, messageId, {
+          code: ErrorCode.InvalidPayload,
+          message: 'Idempotency key was already used for a different request'
+        });
+      }
+      return { ...response, messageId };
+    }
+    return run();
+  }
+
+  /**
+   * Identifies the sender of a request by its frame and origin, so one
+   * mini-app cannot get the responses to another's idempotency keys. Requests
+   * from the transport of the host have no source and share one sender.
+   */
+  private senderKey(context: Partial<HostRequestContext>): string {
+    let id = 0;
+    if (context.source) {
+      id = this.senders.get(context.source) || ++this.senderCount;
+      this.senders.set(context.source, id);
+    }
+    return `${id}\n${context.origin || ''}`;
+  }
+
+  /**
+   * Runs a command carrying an idempotency key once: a retry with the same key
+   * gets the response of the first attempt, or waits for it while it is still
+   * running. Failed attempts are not remembered, so they can be retried.
+   * Resolves with null when the key was used for a request with another body.
+   *
+   * @param key - The command and idempotency key
+   * @param fingerprint - Hash of the request body, which retries must repeat
+   * @param run - Runs the command
+   */
+  private runIdempotent(key: string, fingerprint: string, run: () => Promise<Response>): Promise<Response | null> {
+    const now = Date.now();
+    Object.keys(this.idempotentResponses).forEach(existing => {
+      if (this.idempotentResponses[existing].expiresAt < now) {
+        delete this.idempotentResponses[existing];
+      }
+    });
+
+    const cached = this.idempotentResponses[key];
+    if (cached) return cached.fingerprint === fingerprint ? cached.response : Promise.resolve(null);
+
+    const response = run();
+    this.idempotentResponses[key] = { response, fingerprint, expiresAt: now + IDEMPOTENCY_EXPIRY };
+    const forget = () => {
+      if (this.idempotentResponses[key]?.response === response) delete this.idempotentResponses[key];
+    };
+    response.then(result => {
+      if (result.code !== 200) forget();
+    }, forget);
+    return response;
+  }
+
+  /** Invokes a handler and wraps its result or exception in a response */
+  private async runHandler(handler: HostHandler, payload: Payload, context: HostRequestContext): Promise<Response> {
+    const { cmd, messageId } = context;
+    try {
+      const result = await handler(payload, context);
+      return { code: 200, cmd, messageId, data: result };
+    } catch (error: any) {
+      const code = typeof error?.code === 'number' && ErrorCode[error.code] ? error.code : ErrorCode.InternalError;
+      return createErrorResponse(cmd, messageId, {
+        code,
+        message: error instanceof Error ? error.message : 'Unknown error occurred',
+        data: error?.data
+      });
+    }
+  }
+
+  /** Runs the sub-requests of a batch concurrently and replies with all of their responses */
+  private async dispatchBatch(messageId: string, data: Payload | undefined, context: Partial<HostRequestContext>): Promise<Response<{ responses: Response[] }>> {
+    const cmd = BATCH_COMMAND;
+    const requests = data && data.requests;
+    if (!Array.isArray(requests) || !requests.every(request => this.isRequest(request))) {
+      return createErrorResponse(cmd, messageId, { message: 'Invalid batch requests' });
+    }
+
+    const responses = await Promise.all((requests as RequestMessage[]).map(request => {
+      if (request.cmd === BATCH_COMMAND || request.cmd === HANDSHAKE_COMMAND) {
+        return createErrorResponse(request.cmd, request.messageId, {
+          code: ErrorCode.methodNotFound,
+          message: `Command ${request.cmd} cannot be batched`
+        });
+      }
+      return this.dispatch(request, context);
+    }));
+    return { code: 200, cmd, messageId, data: { responses } };
+  }
+
+  /** Checks whether a posted message is a command request */
+  private isRequest(message: any): message is RequestMessage {
+    return !!message &&
+      typeof message === 'object' &&
+      typeof message.cmd === 'string' &&
+      typeof message.messageId === 'string' &&
+      !('code' in message);
+  }
+
+  /**
+   * Versions and commands advertised to mini-apps during the handshake. With
+   * a default handler, the wildcard `'*'` stands for the commands it answers.
+   */
+  getHandshakeInfo(): HandshakeInfo {
+    const commands = [...Object.keys(this.handlers), TRANSFER_START_COMMAND, TRANSFER_CHUNK_COMMAND, BATCH_COMMAND];
+    if (this.defaultHandler) commands.push(ANY_COMMAND);
+    return { version: VERSION, protocolVersion: PROTOCOL_VERSION, commands };
+  }
+
+  /** Registers a chunked transfer, or reports the chunks held when resuming one */
+  private startTransfer(messageId: string, data: Partial<TransferStartRequest> | undefined): Response<TransferStartResult> {
+    const cmd = TRANSFER_START_COMMAND;
+    const isCount = (value: any, min: number) => typeof value === 'number' && Number.isInteger(value) && value >= min;
+
+    if (!data ||
+        typeof data.transferId !== 'string' || !data.transferId.trim() ||
+        typeof data.mimeType !== 'string' ||
+        typeof data.checksum !== 'number' ||
+        !isCount(data.size, 0) ||
+        !isCount(data.chunkSize, 1) ||
+        data.totalChunks !== Math.max(1, Math.ceil(data.size! / data.chunkSize!))) {
+      return createErrorResponse(cmd, messageId, { message: 'Invalid transfer description' });
+    }
+
+    if (data.size! > this.maxTransferSize) {
+      return createErrorResponse(cmd, messageId, { code: ErrorCode.ExceededUploadSizeLimit });
+    }
+
+    // Drop transfers that were abandoned
+    const now = Date.now();
+    Object.keys(this.transfers).forEach(transferId => {
+      if (now - this.transfers[transferId].updatedAt > TRANSFER_EXPIRY) {
+        delete this.transfers[transferId];
+      }
+    });
+
+    const request = data as TransferStartRequest;
+    const existing = this.transfers[request.transferId];
+    if (existing &&
+        existing.request.size === request.size &&
+        existing.request.chunkSize === request.chunkSize &&
+        existing.request.checksum === request.checksum) {
+      existing.updatedAt = now;
+    } else {
+      this.transfers[request.transferId] = { request, chunks: new Array(request.totalChunks), updatedAt: now };
+    }
+
+    const received: number[] = [];
+    this.transfers[request.transferId].chunks.forEach((chunk, index) => {
+      if (chunk) received.push(index);
+    });
+    return { code: 200, cmd, messageId, data: { received } };
+  }
+
+  /** Stores a chunk of a transfer after checking its checksum */
+  private receiveChunk(messageId: string, data: Partial<TransferChunkRequest> | undefined): Response {
+    const cmd = TRANSFER_CHUNK_COMMAND;
+    const transfer = data && typeof data.transferId === 'string' ? this.transfers[data.transferId] : undefined;
+
+    if (!transfer) {
+      return createErrorResponse(cmd, messageId, { message: 'Unknown transfer' });
+    }
+
+    const { size, chunkSize, totalChunks } = transfer.request;
+    const index = data!.index;
+    if (typeof index !== 'number' || !Number.isInteger(index) || index < 0 || index >= totalChunks ||
+        typeof data!.chunk !== 'string' || typeof data!.checksum !== 'number') {
+      return createErrorResponse(cmd, messageId, { message: 'Invalid transfer chunk' });
+    }
+
+    let bytes: Uint8Array;
+    try {
+      bytes = base64ToBytes(data!.chunk);
+    } catch (e) {
+      return createErrorResponse(cmd, messageId, { message: 'Failed to decode transfer chunk' });
+    }
+
+    const expectedLength = index < totalChunks - 1 ? chunkSize : size - index * chunkSize;
+    if (bytes.length !== expectedLength || crc32(bytes) !== data!.checksum) {
+      return createErrorResponse(cmd, messageId, { message: 'Transfer chunk checksum mismatch' });
+    }
+
+    transfer.chunks[index] = bytes;
+    transfer.updatedAt = Date.now();
+    return { code: 200, cmd, messageId, data: { index } };
+  }
+
+  /**
+   * Reassembles a completed transfer and verifies its checksum.
+   * Returns the content as a data URI, or the error response to send.
+   */
+  private completeTransfer(cmd: string, messageId: string, reference: TransferReference): string | ErrorResponse {
+    const transfer = this.transfers[reference.transferId];
+    if (!transfer || transfer.chunks.some(chunk => !chunk)) {
+      return createErrorResponse(cmd, messageId, { message: 'Transfer is incomplete' });
+    }
+    delete this.transfers[reference.transferId];
+
+    const { size, mimeType, checksum } = transfer.request;
+    const bytes = new Uint8Array(size);
+    let offset = 0;
+    transfer.chunks.forEach(chunk => {
+      bytes.set(chunk!, offset);
+      offset += chunk!.length;
+    });
+
+    if (crc32(bytes) !== checksum) {
+      return createErrorResponse(cmd, messageId, { message: 'Transfer checksum mismatch' });
+    }
+    return `data:${mimeType};base64,${bytesToBase64(bytes)}`;
+  }
+
+  private isTransport(target: MessageEventSource | Transport): target is Transport {
+    return typeof (target as Transport).subscribe === 'function';
+  }
+
+  /** Receives requests from a transport and replies through it */
+  private async transportHandler(transport: Transport, message: TransportMessage) {
+    if (!message.trusted) return;
+
+    const post = (response: Payload) => {
+      if (this.unsubscribe) transport.send(response);
+    };
+    await this.receive(transport, message.data, { origin: message.origin, source: null }, post);
+  }
+
+  /**
+   * Receives messages posted to the host window and replies to the
+   * frame that sent them.
+   */
+  private async messageHandler(event: MessageEvent) {
+    const source = event.source;
+    const targetOrigin = event.origin && event.origin !== 'null' ? event.origin : '*';
+    const post = (response: Payload) => {
+      // The frame may have gone away while the handler was running
+      if (!source || !this.listenerFn) return;
+      (source as Window).postMessage(response, { targetOrigin });
+    };
+    await this.receive(source, event.data, { origin: event.origin, source }, post);
+  }
+
+  /**
+   * Answers a message of a mini-app. Sealed messages are opened with the
+   * secure channel they name, among those of their sender, and answered
+   * sealed on it.
+   */
+  private async receive(peer: object | null, message: any, context: { origin: string; source: MessageEventSource | null }, post: (response: Payload) => void) {
+    if (isSealed(message)) {
+      const session = peer ? this.sessions.get(peer)?.get(message.sealed.channel) : undefined;
+      const request = session ? await session.open(message) : null;
+      if (!session || !this.isRequest(request)) return;
+
+      if (this.onRequest) this.onRequest(request, context);
+      await this.answer(request, context, response => session.seal(response).then(post));
+      return;
+    }
+
+    if (!this.isRequest(message)) return;
+    if (this.onRequest) this.onRequest(message, context);
+    if (message.cmd === HANDSHAKE_COMMAND && message.data && message.data.secure) {
+      post(await this.establishSession(peer, message));
+      return;
+    }
+
+    await this.answer(message, context, post);
+  }
+
+  /**
+   * Runs a request and sends its response; progress is sent best effort. When
+   * the response cannot be produced or sent, e.g. a handler result that fails
+   * to be cloned, the mini-app gets an InternalError response instead.
+   */
+  private async answer(
+    request: RequestMessage,
+    context: Partial<HostRequestContext>,
+    send: (message: Response | ProgressMessage) => void | Promise<void>
+  ) {
+    const sendProgress = (progress: ProgressMessage) => {
+      try {
+        Promise.resolve(send(progress)).catch(() => {});
+      } catch {
+        // A lost progress update must not fail the handler
+      }
+    };
+
+    try {
+      await send(await this.dispatch(request, context, sendProgress));
+    } catch (error) {
+      const failure = createErrorResponse(request.cmd, request.messageId, {
+        code: ErrorCode.InternalError,
+        message: `Unable to send the response: ${error instanceof Error ? error.message : error}`
+      });
+      try {
+        await send(failure);
+      } catch {
+        // The mini-app cannot be reached at all
+      }
+    }
+  }
+
+  /** Answers a handshake carrying a key exchange and keeps the resulting secure channel */
+  private async establishSession(peer: object | null, message: RequestMessage): Promise<Response> {
+    const response = await this.dispatch(message);
+    if (response.code !== 200 || !peer) return response;
+
+    const { publicKey, channel } = message.data!.secure;
+    if (typeof channel !== 'string' || !channel) {
+      return createErrorResponse(message.cmd, message.messageId, {
+        code: ErrorCode.SecureChannelError,
+        message: 'Missing secure channel id'
+      });
+    }
+
+    const sessions = this.sessions.get(peer) || new Map<string, SecureSession>();
+    this.sessions.set(peer, sessions);
+    try {
+      const exchange = await createKeyExchange();
+      sessions.set(channel, await SecureSession.establish(exchange, String(publicKey), 'host', channel));
+      return { ...response, data: { ...response.data, secure: { publicKey: exchange.publicKey } } };
+    } catch (error) {
+      sessions.delete(channel);
+      return createErrorResponse(message.cmd, message.messageId, {
+        code: ErrorCode.SecureChannelError,
+        message: error instanceof Error ? error.message : 'Key exchange failed'
+      });
+    }
+  }
+
+  /** Destruction method: remove monitoring and registered handlers */
+  destroy() {
+    if (this.listenerFn && this.target) {
+      this.target.removeEventListener("message", this.listenerFn);
+      this.listenerFn = null;
+    }
+    if (this.unsubscribe) {
+      this.unsubscribe();
+      this.unsubscribe = null;
+    }
+    this.handlers = {};
+    this.transfers = {};
+    this.idempotentResponses = {};
+    this.sessions = new WeakMap();
+  }
+}
+
+export { RelayXHost };
+export default RelayXHost;
@@ -0,0 +1,154 @@
+import { ErrorCode, Middleware, Payload, redactMessage, RelayXClient, Response } from "./index";
+
+/**
+ * In-page inspector of the message traffic of a RelayXClient: a collapsible
+ * overlay listing every request with its response, latency, timeout or
+ * error. Sensitive fields are redacted as in the logs.
+ *
+ *   import { attachInspector } from 'relayx-api/inspector';
+ *
+ *   if (import.meta.env.DEV) attachInspector(client);
+ */
+
+export interface InspectorEntry {
+  cmd: string;
+  messageId: string;
+  sentAt: number; // Milliseconds since the epoch
+  request: Payload; // Redacted message sent
+  status: 'pending' | 'success' | 'error' | 'timeout';
+  response?: Response; // Redacted response, once received
+  latency?: number; // Milliseconds until the response
+}
+
+export interface InspectorOptions {
+  maxEntries?: number; // Oldest entries are dropped beyond this count, 200 by default
+  open?: boolean; // Shows the timeline right away instead of the toggle only
+  container?: HTMLElement; // Element the overlay is appended to, document.body by default
+}
+
+export interface Inspector {
+  readonly entries: InspectorEntry[];
+  clear(): void;
+  /** Stops recording and removes the overlay */
+  detach(): void;
+}
+
+const DEFAULT_MAX_ENTRIES = 200;
+
+const STATUS_COLORS: { [status in InspectorEntry['status']]: string } = {
+  pending: '#9aa0a6',
+  success: '#34a853',
+  error: '#ea4335',
+  timeout: '#fbbc04'
+};
+
+/** Creates an element with inline styles and text */
+function element<K extends keyof HTMLElementTagNameMap>(tag: K, style: string, text?: string): HTMLElementTagNameMap[K] {
+  const node = document.createElement(tag);
+  node.style.cssText = style;
+  if (text !== undefined) node.textContent = text;
+  return node;
+}
+
+/**
+ * Records the traffic of a client and shows it in an overlay.
+ *
+ * @param client - The client to inspect
+ * @param options - Capacity and placement of the overlay
+ * @returns The inspector, to read its entries or detach it
+ */
+export function attachInspector(client: RelayXClient, options: InspectorOptions = {}): Inspector {
+  const maxEntries = options.maxEntries || DEFAULT_MAX_ENTRIES;
+  const entries: InspectorEntry[] = [];
+  const expanded = new Set<InspectorEntry>();
+  let open = !!options.open;
+
+  const root = element('div', 'position:fixed;right:8px;bottom:8px;z-index:2147483647;max-width:min(560px,calc(100vw - 16px));' +
+    'font:12px/1.4 ui-monospace,Menlo,Consolas,monospace;color:#e8eaed');
+  const toggle = element('button', 'display:block;margin-left:auto;padding:4px 8px;border:0;border-radius:4px;background:#202124;color:inherit;font:inherit;cursor:pointer');
+  const panel = element('div', 'margin-top:4px;max-height:50vh;overflow:auto;border-radius:4px;background:rgba(32,33,36,.95)');
+  root.append(panel, toggle);
+  (options.container || document.body).appendChild(root);
+
+  const render = () => {
+    const pending = entries.filter(entry => entry.status === 'pending').length;
+    toggle.textContent = `RelayX ${entries.length}${pending ? ` (${pending} pending)` : ''} ${open ? '▾' : '▴'}`;
+    panel.style.display = open ? 'block' : 'none';
+    if (!open) return;
+
+    panel.replaceChildren(...entries.slice().reverse().map(entry => {
+      const row = element('div', 'padding:4px 8px;border-bottom:1px solid #3c4043;cursor:pointer');
+      const time = new Date(entry.sentAt).toLocaleTimeString();
+      const result = entry.status === 'pending' ? 'pending'
+        : `${entry.response ? entry.response.code : ''} ${entry.latency}ms`;
+      row.append(
+        element('span', 'color:#9aa0a6', `${time} `),
+        element('span', '', `${entry.cmd} `),
+        element('span', `color:${STATUS_COLORS[entry.status]}`, result)
+      );
+      if (entry.response && entry.response.code !== 200 && entry.response.message) {
+        row.append(element('div', `color:${STATUS_COLORS[entry.status]}`, entry.response.message));
+      }
+      if (expanded.has(entry)) {
+        const details = JSON.stringify({ request: entry.request, response: entry.response }, null, 2);
+        row.append(element('pre', 'margin:4px 0 0;white-space:pre-wrap;word-break:break-all', details));
+      }
+      row.addEventListener('click', () => {
+        if (!expanded.delete(entry)) expanded.add(entry);
+        render();
+      });
+      return row;
+    }));
+  };
+
+  toggle.addEventListener('click', () => {
+    open = !open;
+    render();
+  });
+
+  const record: Middleware = async (context, next) => {
+    const entry: InspectorEntry = {
+      cmd: context.cmd,
+      messageId: context.messageId,
+      sentAt: Date.now(),
+      request: redactMessage(context.cmd, { cmd: context.cmd, messageId: context.messageId, ...context.message }),
+      status: 'pending'
+    };
+    entries.push(entry);
+    entries.splice(0, Math.max(0, entries.length - maxEntries)).forEach(dropped => expanded.delete(dropped));
+    render();
+
+    let response: Response;
+    try {
+      response = await next();
+    } catch (error) {
+      entry.latency = Date.now() - entry.sentAt;
+      entry.status = 'error';
+      render();
+      throw error;
+    }
+    entry.latency = Date.now() - entry.sentAt;
+    entry.response = redactMessage(context.cmd, response) as Response;
+    entry.status = response.code === 200 ? 'success'
+      : response.code === ErrorCode.TimeoutError ? 'timeout'
+      : 'error';
+    render();
+    return response;
+  };
+
+  client.use(record);
+  render();
+
+  return {
+    entries,
+    clear() {
+      entries.length = 0;
+      expanded.clear();
+      render();
+    },
+    detach() {
+      client.removeMiddleware(record);
+      root.remove();
+    }
+  };
+}
@@ -0,0 +1,101 @@
+import { BATCH_COMMAND } from "./protocol";
+import { Payload } from "./types";
+
+/**
+ * Structured logging of the message traffic, off unless configured. Entries
+ * go to a sink, the console by default, with sensitive fields redacted.
+ */
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export interface LogEntry {
+  level: LogLevel;
+  message: string;
+  timestamp: number; // Milliseconds since the epoch
+  cmd?: string;
+  messageId?: string;
+  details?: Payload; // Request, response or error fields, redacted
+}
+
+export type LogSink = (entry: LogEntry) => void;
+
+export interface LoggerConfig {
+  level?: LogLevel | 'silent'; // Least severe level logged, 'info' by default
+  sink?: LogSink; // Receives the entries instead of the console
+}
+
+const LEVELS: { [level in LogLevel | 'silent']: number } = { debug: 10, info: 20, warn: 30, error: 40, silent: 100 };
+
+const REDACTED = '[redacted]';
+
+// Fields of `data` that must not leave the client, by command
+const SENSITIVE_DATA: { [cmd: string]: string[] } = {
+  encrypt: ['message', 'content'],
+  decrypt: ['content', 'message']
+};
+
+/**
+ * Copy of a request or response that is safe to log or display: the `sign`
+ * field and the plain and cipher texts of encrypt and decrypt are redacted,
+ * including in the requests and responses a batch carries.
+ */
+export function redactMessage(cmd: string, message: Payload): Payload {
+  const redacted: Payload = { ...message };
+  if (redacted.sign !== undefined) redacted.sign = REDACTED;
+  if (!redacted.data || typeof redacted.data !== 'object') return redacted;
+
+  if (cmd === BATCH_COMMAND) {
+    redacted.data = { ...redacted.data };
+    ['requests', 'responses'].forEach(field => {
+      if (!Array.isArray(redacted.data[field])) return;
+      redacted.data[field] = redacted.data[field].map((item: any) =>
+        item && typeof item === 'object' ? redactMessage(typeof item.cmd === 'string' ? item.cmd : '', item) : item);
+    });
+    return redacted;
+  }
+
+  const fields = SENSITIVE_DATA[cmd];
+  if (fields) {
+    redacted.data = { ...redacted.data };
+    fields.forEach(field => {
+      if (redacted.data[field] !== undefined) redacted.data[field] = REDACTED;
+    });
+  }
+  return redacted;
+}
+
+/** Writes an entry to the console */
+export const consoleSink: LogSink = entry => {
+  const label = `[relayx] ${entry.message}`;
+  const args = entry.details ? [label, entry.details] : [label];
+  console[entry.level](...args);
+};
+
+class Logger {
+  private readonly threshold: number;
+  private readonly sink: LogSink;
+
+  constructor(config: LoggerConfig) {
+    this.threshold = LEVELS[config.level || 'info'];
+    this.sink = config.sink || consoleSink;
+  }
+
+  /** Whether entries of a level are logged, to skip building them otherwise */
+  enabled(level: LogLevel): boolean {
+    return LEVELS[level] >= this.threshold;
+  }
+
+  log(level: LogLevel, message: string, fields: { cmd?: string; messageId?: string; details?: Payload } = {}) {
+    if (!this.enabled(level)) return;
+
+    const entry: LogEntry = { level, message, timestamp: Date.now(), ...fields };
+    if (fields.details) entry.details = redactMessage(fields.cmd || '', fields.details);
+    try {
+      this.sink(entry);
+    } catch {
+      // A failing sink must not break the request being logged
+    }
+  }
+}
+
+export { Logger };
@@ -0,0 +1,38 @@
+import { RequestOptions } from "./commands";
+import { Payload, Response } from "./types";
+
+// A request on its way to the host, as seen by middleware
+export interface MiddlewareContext {
+  cmd: string;
+  messageId: string;
+  message: Payload; // Fields sent besides cmd and messageId, such as data and sign
+  options: RequestOptions;
+}
+
+/**
+ * Runs around every request sent by RelayXClient. Middleware may change the
+ * context before calling `next`, change the response it resolves with, or
+ * answer without calling `next` at all.
+ */
+export type Middleware = (context: MiddlewareContext, next: () => Promise<Response>) => Response | Promise<Response>;
+
+/**
+ * Runs a request through a middleware stack, in registration order.
+ *
+ * @param stack - The middleware to run
+ * @param context - The request, shared by every middleware
+ * @param send - Sends the request once the whole stack has called `next`
+ */
+export function runMiddleware(stack: Middleware[], context: MiddlewareContext, send: () => Promise<Response>): Promise<Response> {
+  const dispatch = (index: number): Promise<Response> => {
+    if (index === stack.length) return send();
+
+    let called = false;
+    return Promise.resolve(stack[index](context, () => {
+      if (called) return Promise.reject(new Error('next() called multiple times'));
+      called = true;
+      return dispatch(index + 1);
+    }));
+  };
+  return dispatch(0);
+}
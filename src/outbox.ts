@@ -0,0 +1,116 @@
+import { SigInfo } from "./commands";
+import { RetryPolicy } from "./retry";
+import { Payload } from "./types";
+
+/**
+ * Persistent outbox of Self Service messages. A message is stored before it
+ * is sent and removed once the host has answered it, so messages sent while
+ * the host is unavailable survive a reload and are delivered in order later.
+ */
+
+// A stored message waiting for delivery
+export interface OutboxEntry {
+  cmd: string;
+  messageId: string;
+  idempotencyKey: string; // Lets the host recognise a message it already handled
+  data: Payload;
+  sign?: SigInfo;
+  createdAt: number;
+  timeout?: number; // Request options of the caller, applied to every delivery attempt
+  retry?: Partial<RetryPolicy> | false;
+}
+
+// Storage backing the outbox; entries are kept in sending order
+export interface OutboxStorage {
+  load(): Promise<OutboxEntry[]>;
+  save(entries: OutboxEntry[]): Promise<void>;
+}
+
+// Outbox kept for the lifetime of the page only
+class MemoryOutbox implements OutboxStorage {
+  private entries: OutboxEntry[] = [];
+
+  async load(): Promise<OutboxEntry[]> {
+    return this.entries.slice();
+  }
+
+  async save(entries: OutboxEntry[]) {
+    this.entries = entries.slice();
+  }
+}
+
+// Outbox stored as JSON under a localStorage key
+class LocalStorageOutbox implements OutboxStorage {
+  constructor(private readonly key: string = 'relayx-outbox') {}
+
+  async load(): Promise<OutboxEntry[]> {
+    const stored = localStorage.getItem(this.key);
+    if (!stored) return [];
+
+    try {
+      const entries = JSON.parse(stored);
+      return Array.isArray(entries) ? entries : [];
+    } catch {
+      return [];
+    }
+  }
+
+  async save(entries: OutboxEntry[]) {
+    if (entries.length) {
+      localStorage.setItem(this.key, JSON.stringify(entries));
+    } else {
+      localStorage.removeItem(this.key);
+    }
+  }
+}
+
+// Outbox stored in an IndexedDB object store, for messages too large for localStorage
+class IndexedDBOutbox implements OutboxStorage {
+  private static readonly ENTRIES_KEY = 'entries';
+  private database: Promise<IDBDatabase> | null = null;
+
+  constructor(private readonly databaseName: string = 'relayx', private readonly storeName: string = 'outbox') {}
+
+  async load(): Promise<OutboxEntry[]> {
+    const entries = await this.run<OutboxEntry[] | undefined>('readonly', store => store.get(IndexedDBOutbox.ENTRIES_KEY));
+    return Array.isArray(entries) ? entries : [];
+  }
+
+  async save(entries: OutboxEntry[]) {
+    await this.run('readwrite', store => store.put(entries, IndexedDBOutbox.ENTRIES_KEY));
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      this.database = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(this.databaseName, 1);
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(this.storeName)) {
+            request.result.createObjectStore(this.storeName);
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+
+      // Allow opening again after a failure
+      this.database.catch(() => {
+        this.database = null;
+      });
+    }
+    return this.database;
+  }
+
+  private async run<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+    const database = await this.open();
+    return new Promise<T>((resolve, reject) => {
+      const transaction = database.transaction(this.storeName, mode);
+      const request = operation(transaction.objectStore(this.storeName));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+}
+
+export { MemoryOutbox, LocalStorageOutbox, IndexedDBOutbox };
@@ -0,0 +1,17 @@
+// Package version, kept in sync with package.json
+export const VERSION = '0.0.3';
+
+// Version of the message protocol; client and host must agree on it
+export const PROTOCOL_VERSION = 1;
+
+// Command exchanging versions and supported commands, answered by the host itself
+export const HANDSHAKE_COMMAND = 'handshake';
+
+// Envelope carrying several commands in one round trip, answered by the host itself
+export const BATCH_COMMAND = 'batch';
+
+// Entry of the handshake command list of a host answering any command, see RelayXHostConfig.defaultHandler
+export const ANY_COMMAND = '*';
+
+// Default time to wait for the handshake reply before treating the host as a legacy host
+export const HANDSHAKE_TIMEOUT = 5000;
@@ -0,0 +1,173 @@
+import { createContext, createElement, ReactNode, useCallback, useContext, useEffect, useRef, useState } from "react";
+import { callCommand, followHostValue } from "./bindings";
+import {
+  CommandArgs,
+  CommandName,
+  CommandResult,
+  ErrorResponse,
+  HostEventListener,
+  HostEventMap,
+  HostEventName,
+  LanguageInfo,
+  RelayXClient,
+  RelayXClientConfig,
+  Response,
+  SafeAreaInsets
+} from "./index";
+
+/**
+ * React bindings: a provider owning the client, and hooks for commands,
+ * events and the values the host keeps up to date.
+ *
+ *   <RelayXProvider config={{ targetOrigin: 'https://host.example' }}>
+ *     <App />
+ *   </RelayXProvider>
+ */
+
+const RelayXContext = createContext<RelayXClient | null>(null);
+
+export interface RelayXProviderProps {
+  client?: RelayXClient; // Client created by the app, which stays its owner
+  config?: RelayXClientConfig; // Configuration of the client created by the provider, read when it mounts
+  children?: ReactNode;
+}
+
+/**
+ * Provides a RelayXClient to the hooks below it. Without a `client`, the
+ * provider creates one once mounted and destroys it when unmounted; the
+ * hooks see `null` until then. Creating it in an effect rather than during
+ * render keeps StrictMode's double mount from leaking a second client.
+ */
+export function RelayXProvider({ client, config, children }: RelayXProviderProps) {
+  const [created, setCreated] = useState<RelayXClient | null>(null);
+  const configRef = useRef(config);
+  configRef.current = config;
+
+  useEffect(() => {
+    if (client) return;
+
+    const instance = new RelayXClient(configRef.current);
+    setCreated(instance);
+    return () => {
+      instance.destroy();
+      setCreated(current => current === instance ? null : current);
+    };
+  }, [client]);
+
+  return createElement(RelayXContext.Provider, { value: client || created }, children);
+}
+
+/** The client of the nearest RelayXProvider, null while it is being created */
+export function useRelayX(): RelayXClient | null {
+  return useContext(RelayXContext);
+}
+
+/** Listens to a host event for as long as the component is mounted */
+export function useRelayXEvent<E extends HostEventName>(event: E, listener: HostEventListener<HostEventMap[E]>): void {
+  const client = useRelayX();
+  const listenerRef = useRef(listener);
+  listenerRef.current = listener;
+
+  useEffect(() => {
+    if (!client) return;
+
+    const handler = (data: HostEventMap[E]) => listenerRef.current(data);
+    client.on(event as string, handler);
+    return () => {
+      client.off(event, handler);
+    };
+  }, [client, event]);
+}
+
+export interface CommandState<T> {
+  data: T | undefined; // Result of the last successful call
+  error: ErrorResponse | null; // Error of the last call, if it failed
+  loading: boolean;
+  response: Response<T> | null; // Response of the last call
+}
+
+export interface UseRelayXCommandOptions<K extends CommandName> {
+  immediate?: boolean; // Runs the command once the client is available
+  args?: CommandArgs<K>; // Arguments of the immediate call
+}
+
+export interface UseRelayXCommandResult<K extends CommandName> extends CommandState<CommandResult<K>> {
+  execute: (...args: CommandArgs<K>) => Promise<Response<CommandResult<K>>>;
+  reset: () => void;
+}
+
+const INITIAL_STATE: CommandState<any> = { data: undefined, error: null, loading: false, response: null };
+
+/**
+ * Tracks the state of a command:
+ *
+ *   const { data, error, loading, execute } = useRelayXCommand('getAccount');
+ *
+ * Only the latest call updates the state, and nothing is updated once the
+ * component is unmounted. `execute` resolves with the response either way.
+ */
+export function useRelayXCommand<K extends CommandName>(cmd: K, options: UseRelayXCommandOptions<K> = {}): UseRelayXCommandResult<K> {
+  const client = useRelayX();
+  const [state, setState] = useState<CommandState<CommandResult<K>>>(INITIAL_STATE);
+  const lastCall = useRef(0);
+  const mounted = useRef(false);
+  const argsRef = useRef(options.args);
+  argsRef.current = options.args;
+
+  useEffect(() => {
+    mounted.current = true;
+    return () => {
+      mounted.current = false;
+    };
+  }, []);
+
+  const execute = useCallback((...args: CommandArgs<K>) => {
+    const call = ++lastCall.current;
+    setState(current => ({ ...current, loading: true }));
+
+    return callCommand(client, cmd, args).then(response => {
+      if (mounted.current && call === lastCall.current) {
+        setState(response.code === 200
+          ? { data: response.data, error: null, loading: false, response }
+          : { data: undefined, error: response, loading: false, response });
+      }
+      return response;
+    });
+  }, [client, cmd]);
+
+  const reset = useCallback(() => {
+    lastCall.current++;
+    setState(INITIAL_STATE);
+  }, []);
+
+  useEffect(() => {
+    if (options.immediate && client) {
+      execute(...(argsRef.current || [] as unknown as CommandArgs<K>));
+    }
+  }, [options.immediate, client, execute]);
+
+  return { ...state, execute, reset };
+}
+
+/** Follows a value the host announces changes of, null until it is known */
+function useHostValue<T>(load: (client: RelayXClient) => Promise<Response<T>>, event: HostEventName): T | null {
+  const client = useRelayX();
+  const [value, setValue] = useState<T | null>(null);
+
+  useEffect(() => {
+    if (!client) return;
+    return followHostValue(client, load, event, setValue);
+  }, [client]);
+
+  return value;
+}
+
+/** Safe area insets of the host, updated on every safeAreaChange */
+export function useSafeAreaInsets(): SafeAreaInsets | null {
+  return useHostValue(client => client.getSafeAreaInsets(), 'safeAreaChange');
+}
+
+/** Language of the host, updated on every languageChange */
+export function useLanguage(): LanguageInfo | null {
+  return useHostValue(client => client.getLanguage(), 'languageChange');
+}
@@ -0,0 +1,42 @@
+import { ErrorCode, Response } from "./types";
+
+// When and how often a failed command is sent again
+export interface RetryPolicy {
+  maxAttempts: number; // Attempts in total, including the first one
+  baseDelay: number; // Milliseconds to wait before the first retry, doubled for every further one
+  maxDelay: number; // Upper bound of the delay between two attempts
+  retryOn: ErrorCode[]; // Error codes worth another attempt
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelay: 500,
+  maxDelay: 10000,
+  retryOn: [ErrorCode.TimeoutError, ErrorCode.InternalError, ErrorCode.HostUnavailable]
+};
+
+// Commands whose failures are retried when the client has a retry policy
+export const RETRYABLE_COMMANDS = ['registerService', 'checkServiceStatus', 'sendServiceMessage'];
+
+/** Completes a partial policy with the defaults */
+export function resolveRetryPolicy(policy: Partial<RetryPolicy>): RetryPolicy {
+  return { ...DEFAULT_RETRY_POLICY, ...policy };
+}
+
+/** Whether a response failed with an error code the policy retries */
+export function isRetryable(response: Response, policy: RetryPolicy): boolean {
+  return response.code !== 200 && policy.retryOn.includes(response.code);
+}
+
+/**
+ * Delay before a retry: exponential backoff with jitter, so clients that
+ * failed together do not all retry at the same moment.
+ *
+ * @param attempt - Number of attempts made so far, starting at 1
+ * @param policy - The retry policy
+ * @returns Milliseconds to wait, between half and the full backoff
+ */
+export function retryDelay(attempt: number, policy: RetryPolicy): number {
+  const backoff = Math.min(policy.maxDelay, policy.baseDelay * Math.pow(2, attempt - 1));
+  return Math.round(backoff / 2 + Math.random() * backoff / 2);
+}
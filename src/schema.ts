@@ -0,0 +1,106 @@
+/**
+ * Declarative payload schemas. A schema describes the shape of a value;
+ * checking a value against it yields one FieldError per offending field.
+ */
+
+export type SchemaType = 'string' | 'number' | 'boolean' | 'object' | 'array' | 'binary' | 'any';
+
+export interface FieldSchema {
+  type: SchemaType | SchemaType[]; // Several types accept any of them
+  optional?: boolean; // The field may be missing or undefined
+  description?: string; // Expected value reported on failure, e.g. "https URL", instead of the type
+
+  // Strings
+  nonEmpty?: boolean; // Rejects strings that are empty once trimmed
+  maxLength?: number;
+  prefix?: string;
+  pattern?: RegExp;
+
+  // Strings and numbers
+  enum?: (string | number)[];
+
+  // Objects
+  properties?: { [key: string]: FieldSchema };
+
+  // Arrays
+  items?: FieldSchema;
+}
+
+// A field that failed its schema
+export interface FieldError {
+  path: string; // Location of the field, e.g. "data.url" or "data.chainList[0]"
+  expected: string; // What the schema expects there
+  reason: string; // Why the value does not match
+}
+
+/** Type name of a value as schemas see it */
+function typeOf(value: any): SchemaType | 'null' | 'undefined' {
+  if (value === null) return 'null';
+  if (value === undefined) return 'undefined';
+  if (Array.isArray(value)) return 'array';
+  if ((typeof Blob !== 'undefined' && value instanceof Blob) ||
+      value instanceof ArrayBuffer ||
+      ArrayBuffer.isView(value)) {
+    return 'binary';
+  }
+  const type = typeof value;
+  return type === 'string' || type === 'number' || type === 'boolean' ? type : 'object';
+}
+
+/** Description of the value a schema expects */
+function expectation(schema: FieldSchema): string {
+  if (schema.description) return schema.description;
+  if (schema.enum) return `one of ${schema.enum.map(value => JSON.stringify(value)).join(', ')}`;
+  const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+  return types.map(type => type === 'string' && schema.nonEmpty ? 'non-empty string' : type).join(' or ');
+}
+
+/**
+ * Checks a value against a schema.
+ *
+ * @param value - The value to check
+ * @param schema - The schema it must match
+ * @param path - Path of the value, prefixed to the paths of nested fields
+ * @returns The errors found, empty when the value matches
+ */
+export function checkSchema(value: any, schema: FieldSchema, path: string): FieldError[] {
+  const expected = expectation(schema);
+  const error = (reason: string): FieldError[] => [{ path, expected, reason }];
+  const actual = typeOf(value);
+
+  if (actual === 'undefined') {
+    return schema.optional ? [] : error('is missing');
+  }
+
+  const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+  if (!types.includes('any') && !types.includes(actual as SchemaType)) {
+    return error(actual === 'null' ? 'is null' : `is ${actual === 'object' || actual === 'array' ? 'an' : 'a'} ${actual}`);
+  }
+
+  if (actual === 'string') {
+    if (schema.nonEmpty && !value.trim()) return error('is empty');
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      return error(`is longer than ${schema.maxLength} characters`);
+    }
+    if (schema.prefix && !value.startsWith(schema.prefix)) return error(`does not start with ${schema.prefix}`);
+    if (schema.pattern && !schema.pattern.test(value)) return error('has an invalid format');
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    return error(`is ${JSON.stringify(value)}`);
+  }
+
+  if (actual === 'object' && schema.properties) {
+    const properties = schema.properties;
+    return Object.keys(properties).reduce<FieldError[]>((errors, key) =>
+      errors.concat(checkSchema(value[key], properties[key], path ? `${path}.${key}` : key)), []);
+  }
+
+  if (actual === 'array' && schema.items) {
+    const items = schema.items;
+    return (value as any[]).reduce<FieldError[]>((errors, item, index) =>
+      errors.concat(checkSchema(item, items, `${path}[${index}]`)), []);
+  }
+
+  return [];
+}
@@ -0,0 +1,142 @@
+import { base64ToBytes, bytesToBase64 } from "./transfer";
+
+/**
+ * End-to-end encrypted channel between a client and a host, so scripts
+ * observing `message` events cannot read the traffic.
+ *
+ * Both sides send an ephemeral ECDH P-256 public key in the handshake and
+ * derive the session key from the shared secret with HKDF-SHA-256. Every
+ * later message is sealed whole with AES-GCM under a sequence number bound
+ * to its direction, and each side only opens messages whose sequence number
+ * is higher than the last one it opened, which stops replays.
+ *
+ * Each client picks a channel id sent with its key and with every sealed
+ * message, so several clients of one frame keep sessions of their own.
+ */
+
+const SECURE_VERSION = 'relayx-secure-v1';
+
+export type SecureRole = 'client' | 'host';
+
+// Key exchange fields of the handshake
+export interface SecureHandshake {
+  publicKey: string; // Base64 raw P-256 public key of the sender
+  channel?: string; // Channel id chosen by the client, sent by the client only
+}
+
+// A message sealed with the session key
+export interface SealedMessage {
+  sealed: {
+    channel: string;
+    seq: number;
+    iv: string; // Base64
+    ciphertext: string; // Base64
+  };
+}
+
+// Ephemeral key pair of one side of the exchange
+export interface KeyExchange {
+  keyPair: CryptoKeyPair;
+  publicKey: string; // Base64 raw public key, sent to the other side
+}
+
+/** Whether a message is sealed */
+export function isSealed(message: any): message is SealedMessage {
+  const sealed = message && message.sealed;
+  return !!sealed && typeof sealed.channel === 'string' && typeof sealed.seq === 'number' && typeof sealed.iv === 'string' && typeof sealed.ciphertext === 'string';
+}
+
+/** Generates the ephemeral key pair of a key exchange */
+export async function createKeyExchange(): Promise<KeyExchange> {
+  const keyPair = await crypto.subtle.generateKey({ name: 'ECDH', namedCurve: 'P-256' }, false, ['deriveBits']);
+  const publicKey = new Uint8Array(await crypto.subtle.exportKey('raw', keyPair.publicKey));
+  return { keyPair, publicKey: bytesToBase64(publicKey) };
+}
+
+/** Additional authenticated data of a sealed message */
+function additionalData(channel: string, role: SecureRole, seq: number): Uint8Array {
+  return new TextEncoder().encode(`${SECURE_VERSION}\n${channel}\n${role}\n${seq}`);
+}
+
+class SecureSession {
+  private sentSeq = 0;
+  private openedSeq = 0;
+  // Sealing and opening run one message at a time, so sequence numbers follow the message order
+  private sealing: Promise<unknown> = Promise.resolve();
+  private opening: Promise<unknown> = Promise.resolve();
+
+  private constructor(private readonly key: CryptoKey, private readonly role: SecureRole, readonly channel: string) {}
+
+  /**
+   * Derives the session key once both public keys are known.
+   *
+   * @param exchange - The key pair of this side
+   * @param peerPublicKey - The public key the other side sent
+   * @param role - The side this session is for
+   * @param channel - The channel id chosen by the client
+   */
+  static async establish(exchange: KeyExchange, peerPublicKey: string, role: SecureRole, channel: string): Promise<SecureSession> {
+    const peerKey = await crypto.subtle.importKey('raw', base64ToBytes(peerPublicKey) as BufferSource, { name: 'ECDH', namedCurve: 'P-256' }, false, []);
+    const secret = await crypto.subtle.deriveBits({ name: 'ECDH', public: peerKey }, exchange.keyPair.privateKey, 256);
+    const material = await crypto.subtle.importKey('raw', secret, 'HKDF', false, ['deriveKey']);
+
+    // Both public keys, client first, tie the key to this exchange
+    const [clientKey, hostKey] = role === 'client' ? [exchange.publicKey, peerPublicKey] : [peerPublicKey, exchange.publicKey];
+    const salt = new TextEncoder().encode(`${clientKey}\n${hostKey}`);
+    const key = await crypto.subtle.deriveKey(
+      { name: 'HKDF', hash: 'SHA-256', salt, info: new TextEncoder().encode(SECURE_VERSION) },
+      material,
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['encrypt', 'decrypt']
+    );
+    return new SecureSession(key, role, channel);
+  }
+
+  /** Seals a message for the other side */
+  seal(message: any): Promise<SealedMessage> {
+    const result = this.sealing.then(async () => {
+      const seq = ++this.sentSeq;
+      const iv = crypto.getRandomValues(new Uint8Array(12));
+      const plaintext = new TextEncoder().encode(JSON.stringify(message));
+      const ciphertext = await crypto.subtle.encrypt(
+        { name: 'AES-GCM', iv, additionalData: additionalData(this.channel, this.role, seq) as BufferSource },
+        this.key,
+        plaintext
+      );
+      return { sealed: { channel: this.channel, seq, iv: bytesToBase64(iv), ciphertext: bytesToBase64(new Uint8Array(ciphertext)) } };
+    });
+    this.sealing = result.catch(() => {});
+    return result;
+  }
+
+  /**
+   * Opens a message sealed by the other side. Resolves with null when it
+   * was tampered with, sealed with another key or for another channel, or replayed.
+   */
+  open(message: SealedMessage): Promise<any> {
+    const result = this.opening.then(async () => {
+      const { channel, seq, iv, ciphertext } = message.sealed;
+      if (channel !== this.channel || !Number.isInteger(seq) || seq <= this.openedSeq) return null;
+
+      const peerRole: SecureRole = this.role === 'client' ? 'host' : 'client';
+      let plaintext: ArrayBuffer;
+      try {
+        plaintext = await crypto.subtle.decrypt(
+          { name: 'AES-GCM', iv: base64ToBytes(iv) as BufferSource, additionalData: additionalData(channel, peerRole, seq) as BufferSource },
+          this.key,
+          base64ToBytes(ciphertext) as BufferSource
+        );
+      } catch {
+        return null;
+      }
+
+      this.openedSeq = seq;
+      return JSON.parse(new TextDecoder().decode(plaintext));
+    });
+    this.opening = result.catch(() => {});
+    return result;
+  }
+}
+
+export { SecureSession };
@@ -0,0 +1,86 @@
+import { ServiceHttpRequest, ServiceHttpResponse, ServiceRequestOptions } from "./commands";
+import { RelayXError } from "./errors";
+import { ServiceSigner } from "./signing";
+import { ErrorCode, Response } from "./types";
+import { createErrorResponse } from "./utils";
+
+/**
+ * fetch-like HTTP requests to a service through sendServiceMessage. The
+ * request travels as a ServiceHttpRequest envelope in `content`, and the
+ * host answers with a ServiceHttpResponse in `data`.
+ */
+
+export interface ServiceFetchInit extends ServiceRequestOptions {
+  signer: ServiceSigner; // Signs the message for the service
+  method?: string; // GET by default
+  headers?: { [name: string]: string } | [string, string][];
+  body?: any; // Strings are sent as is, other values as JSON
+}
+
+/** Builds the envelope of an HTTP request */
+export function buildServiceRequest(url: string, init: Pick<ServiceFetchInit, 'method' | 'headers' | 'body'> = {}): ServiceHttpRequest {
+  const headers: { [name: string]: string } = {};
+  const entries = Array.isArray(init.headers) ? init.headers : Object.entries(init.headers || {});
+  entries.forEach(([name, value]) => {
+    headers[name.toLowerCase()] = String(value);
+  });
+
+  const request: ServiceHttpRequest = { method: (init.method || 'GET').toUpperCase(), url, headers };
+  if (init.body !== undefined && init.body !== null) {
+    if (typeof init.body === 'string') {
+      request.body = init.body;
+    } else {
+      request.body = JSON.stringify(init.body);
+      if (!headers['content-type']) headers['content-type'] = 'application/json';
+    }
+  }
+  return request;
+}
+
+/** Response of serviceFetch, modelled on the Fetch API Response */
+class ServiceFetchResponse {
+  readonly status: number;
+  readonly statusText: string;
+  readonly ok: boolean;
+  readonly headers: Headers;
+  private readonly body: string;
+
+  constructor(readonly url: string, response: ServiceHttpResponse) {
+    this.status = response.status;
+    this.statusText = response.statusText || '';
+    this.ok = response.status >= 200 && response.status < 300;
+    this.headers = new Headers(response.headers || {});
+    this.body = response.body || '';
+  }
+
+  async text(): Promise<string> {
+    return this.body;
+  }
+
+  async json<T = any>(): Promise<T> {
+    return JSON.parse(this.body);
+  }
+}
+
+/**
+ * Turns the response to a sendServiceMessage of type HTTP into a
+ * ServiceFetchResponse. Like fetch, HTTP error statuses resolve; failures
+ * of the host or the channel throw a RelayXError carrying their ErrorCode.
+ */
+export function readServiceResponse(url: string, response: Response<ServiceHttpResponse>): ServiceFetchResponse {
+  if (response.code !== 200) {
+    throw new RelayXError(response);
+  }
+
+  const data = response.data;
+  if (!data || typeof data.status !== 'number' || (data.body !== undefined && typeof data.body !== 'string')) {
+    throw new RelayXError(createErrorResponse(response.cmd || 'sendServiceMessage', response.messageId, {
+      code: ErrorCode.InternalError,
+      message: 'Malformed service response',
+      data
+    }));
+  }
+  return new ServiceFetchResponse(url, data);
+}
+
+export { ServiceFetchResponse };
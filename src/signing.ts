@@ -0,0 +1,200 @@
+import { SigInfo } from "./commands";
+import { bytesToBase64, base64ToBytes } from "./transfer";
+import { ErrorCode, Payload, ValidationResult } from "./types";
+
+/**
+ * Signing of Self Service requests with WebCrypto.
+ *
+ * The signed `content` is the canonical form of a request: a version tag,
+ * the service key, the signing time, a random nonce and the SHA-256 hash of
+ * the request body, one per line. The body is hashed as JSON with sorted
+ * keys and without its `messageId`, so both sides hash identical bytes.
+ */
+
+const CONTENT_VERSION = 'relayx-sig-v1';
+
+export const DEFAULT_REPLAY_WINDOW = 5 * 60 * 1000; // Signatures are accepted for 5 minutes
+
+// Commands carrying a sigInfo, checked by RelayXHost when it has a verifier
+export const SIGNED_COMMANDS = ['registerService', 'checkServiceStatus', 'sendServiceMessage'];
+
+// Fields of a parsed canonical `content`
+export interface SignedContent {
+  serviceKey: string;
+  timestamp: number; // Milliseconds since the epoch
+  nonce: string;
+  bodyHash: string; // Base64 SHA-256 of the canonical body
+}
+
+export interface ServiceSignerOptions {
+  serviceKey: string;
+  privateKey: CryptoKey; // ECDSA, RSA, HMAC or Ed25519 key allowed to sign
+  now?: () => number; // Clock, Date.now by default
+}
+
+export interface ServiceVerifierOptions {
+  // Key checking the signatures of a service, or a lookup by service key
+  publicKey: CryptoKey | ((serviceKey: string) => CryptoKey | null | Promise<CryptoKey | null>);
+  replayWindow?: number; // Milliseconds a signature stays valid, in both directions of the clock
+  now?: () => number; // Clock, Date.now by default
+}
+
+/** Serializes a value as JSON with object keys in sorted order */
+export function canonicalJSON(value: any): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value) ?? 'null';
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(item => canonicalJSON(item === undefined ? null : item)).join(',')}]`;
+  }
+  const keys = Object.keys(value).filter(key => value[key] !== undefined).sort();
+  return `{${keys.map(key => `${JSON.stringify(key)}:${canonicalJSON(value[key])}`).join(',')}}`;
+}
+
+/** Base64 SHA-256 hash of a request body in canonical form */
+export async function hashBody(body: Payload | undefined): Promise<string> {
+  const { messageId: _messageId, ...fields } = body || {};
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(canonicalJSON(fields)));
+  return bytesToBase64(new Uint8Array(digest));
+}
+
+/** Parses a canonical `content`, returning null when it is not one */
+export function parseSignedContent(content: string): SignedContent | null {
+  const lines = content.split('\n');
+  if (lines.length !== 5 || lines[0] !== CONTENT_VERSION) return null;
+
+  const [, serviceKey, timestamp, nonce, bodyHash] = lines;
+  if (!serviceKey || !/^\d+$/.test(timestamp) || !/^[0-9a-f]{16,}$/.test(nonce) || !bodyHash) return null;
+
+  return { serviceKey, timestamp: Number(timestamp), nonce, bodyHash };
+}
+
+/** Signature algorithm parameters matching a key */
+function signatureAlgorithm(key: CryptoKey): AlgorithmIdentifier | EcdsaParams | RsaPssParams {
+  switch (key.algorithm.name) {
+    case 'ECDSA': {
+      const curve = (key.algorithm as EcKeyAlgorithm).namedCurve;
+      return { name: 'ECDSA', hash: curve === 'P-384' ? 'SHA-384' : curve === 'P-521' ? 'SHA-512' : 'SHA-256' };
+    }
+    case 'RSA-PSS':
+      return { name: 'RSA-PSS', saltLength: 32 };
+    default:
+      return { name: key.algorithm.name };
+  }
+}
+
+/**
+ * Builds the `sigInfo` of Self Service requests:
+ *
+ *   const signer = new ServiceSigner({ serviceKey, privateKey });
+ *   client.sendServiceMessage(message, await signer.sign(message));
+ */
+class ServiceSigner {
+  private readonly now: () => number;
+
+  constructor(private readonly options: ServiceSignerOptions) {
+    this.now = options.now || Date.now;
+  }
+
+  /**
+   * Signs a request body.
+   *
+   * @param body - The `data` of the request, e.g. the sendServiceMessage payload
+   * @returns The sigInfo to send along with the request
+   */
+  async sign(body: Payload = {}): Promise<SigInfo> {
+    const nonceBytes = crypto.getRandomValues(new Uint8Array(16));
+    const nonce = Array.from(nonceBytes, byte => byte.toString(16).padStart(2, '0')).join('');
+    const content = [CONTENT_VERSION, this.options.serviceKey, String(this.now()), nonce, await hashBody(body)].join('\n');
+
+    const { privateKey } = this.options;
+    const signature = await crypto.subtle.sign(signatureAlgorithm(privateKey), privateKey, new TextEncoder().encode(content));
+    return { content, signature: bytesToBase64(new Uint8Array(signature)) };
+  }
+}
+
+/**
+ * Checks `sigInfo` produced by ServiceSigner: the structure and freshness of
+ * the content, the body hash, the signature, and that its nonce was not
+ * already used within the replay window. Retries of a request carrying the
+ * same idempotency key may present the same signature again.
+ */
+class ServiceVerifier {
+  readonly replayWindow: number;
+  private readonly now: () => number;
+  private usedNonces: Map<string, { timestamp: number; idempotencyKey?: string }> = new Map();
+
+  constructor(private readonly options: ServiceVerifierOptions) {
+    this.replayWindow = options.replayWindow || DEFAULT_REPLAY_WINDOW;
+    this.now = options.now || Date.now;
+  }
+
+  /**
+   * Verifies the signature information of a request.
+   *
+   * @param sigInfo - The `sign` field of the request
+   * @param body - The `data` field of the request
+   * @param idempotencyKey - The idempotency key of the request, if any
+   * @returns The validation result, with `InvalidCertificate` on failure
+   */
+  async verify(sigInfo: Partial<SigInfo> | undefined, body: Payload | undefined, idempotencyKey?: string): Promise<ValidationResult> {
+    if (!sigInfo || typeof sigInfo.content !== 'string' || typeof sigInfo.signature !== 'string') {
+      return this.invalid('Missing certificate information', ErrorCode.MissingCertificate);
+    }
+
+    const signed = parseSignedContent(sigInfo.content);
+    if (!signed) {
+      return this.invalid('Malformed signature content');
+    }
+
+    const now = this.now();
+    if (Math.abs(now - signed.timestamp) > this.replayWindow) {
+      return this.invalid('Signature expired');
+    }
+
+    this.usedNonces.forEach((used, nonce) => {
+      if (Math.abs(now - used.timestamp) > this.replayWindow) this.usedNonces.delete(nonce);
+    });
+    if (this.isReplay(signed.nonce, idempotencyKey)) {
+      return this.invalid('Signature already used');
+    }
+
+    if (signed.bodyHash !== await hashBody(body)) {
+      return this.invalid('Signature does not match the request');
+    }
+
+    const { publicKey } = this.options;
+    const key = typeof publicKey === 'function' ? await publicKey(signed.serviceKey) : publicKey;
+    if (!key) {
+      return this.invalid(`Unknown service ${signed.serviceKey}`);
+    }
+
+    let verified = false;
+    try {
+      verified = await crypto.subtle.verify(signatureAlgorithm(key), key, base64ToBytes(sigInfo.signature) as BufferSource, new TextEncoder().encode(sigInfo.content));
+    } catch {
+      verified = false;
+    }
+    if (!verified) {
+      return this.invalid('Invalid signature');
+    }
+
+    // Checked again, as another request may have used the nonce while this one was verified
+    if (this.isReplay(signed.nonce, idempotencyKey)) {
+      return this.invalid('Signature already used');
+    }
+    this.usedNonces.set(signed.nonce, { timestamp: signed.timestamp, idempotencyKey });
+    return { isValid: true };
+  }
+
+  private isReplay(nonce: string, idempotencyKey?: string): boolean {
+    const used = this.usedNonces.get(nonce);
+    return !!used && (!idempotencyKey || used.idempotencyKey !== idempotencyKey);
+  }
+
+  private invalid(errorMessage: string, errorCode: ErrorCode = ErrorCode.InvalidCertificate): ValidationResult {
+    return { isValid: false, errorCode, errorMessage };
+  }
+}
+
+export { ServiceSigner, ServiceVerifier };
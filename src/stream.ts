@@ -0,0 +1,57 @@
+import { ProgressUpdate } from "./commands";
+import { Response } from "./types";
+
+/**
+ * A command whose progress updates can be consumed with `for await`.
+ * Iteration ends when the response arrives; `response` settles with it.
+ */
+export interface CommandStream<T = any> extends AsyncIterable<ProgressUpdate> {
+  response: Promise<Response<T>>;
+}
+
+/**
+ * Creates a stream from a command call.
+ *
+ * @param start - Sends the command, handing progress updates to the given callback
+ */
+export function createCommandStream<T>(start: (onProgress: (progress: ProgressUpdate) => void) => Promise<Response<T>>): CommandStream<T> {
+  const updates: ProgressUpdate[] = [];
+  let finished = false;
+  let wake: (() => void) | null = null;
+
+  const notify = () => {
+    if (wake) {
+      wake();
+      wake = null;
+    }
+  };
+
+  const response = start(progress => {
+    updates.push(progress);
+    notify();
+  });
+
+  // Rejections are left to whoever awaits `response`
+  const finish = () => {
+    finished = true;
+    notify();
+  };
+  response.then(finish, finish);
+
+  return {
+    response,
+    async *[Symbol.asyncIterator]() {
+      for (;;) {
+        if (updates.length) {
+          yield updates.shift()!;
+        } else if (finished) {
+          return;
+        } else {
+          await new Promise<void>(resolve => {
+            wake = resolve;
+          });
+        }
+      }
+    }
+  };
+}
@@ -0,0 +1,166 @@
+import {
+  CommandName,
+  CommandRequest,
+  CommandResult,
+  ErrorCode,
+  HostEventMap,
+  HostEventName,
+  InMemoryTransport,
+  Payload,
+  ProgressUpdate,
+  RelayXClient,
+  RelayXClientConfig,
+  RelayXError,
+  RelayXHost
+} from "./index";
+import { createErrorResponse } from "./utils";
+
+/**
+ * Test harness for code built on RelayXClient: a scriptable host running
+ * in memory, so no browser or RelayApp container is needed.
+ *
+ *   const host = new MockHost();
+ *   host.respond('getLanguage', { language: 'en' });
+ *   const client = host.createClient();
+ *
+ * The handshake advertises every command, so stubs may be added or removed
+ * after a client has connected; commands without a stub fail on the host
+ * with `methodNotFound`.
+ */
+
+// A message the mini-app sent to the mock host
+export interface RecordedMessage {
+  cmd: string;
+  messageId: string;
+  data?: Payload;
+  sign?: Payload;
+  idempotencyKey?: string;
+}
+
+export interface MockReplyOptions {
+  delay?: number; // Milliseconds to wait before replying
+  progress?: ProgressUpdate[]; // Progress updates sent before the reply, to clients asking for them
+}
+
+export type MockResolver<T = any> = (data: Payload, message: RecordedMessage) => T | Promise<T>;
+
+class MockHost {
+  private readonly host: RelayXHost;
+  private readonly clientTransport: InMemoryTransport;
+  private readonly hostTransport: InMemoryTransport;
+  private readonly clients: RelayXClient[] = [];
+  private recorded: RecordedMessage[] = [];
+
+  constructor() {
+    [this.clientTransport, this.hostTransport] = InMemoryTransport.createPair();
+
+    // Recorded by the host itself, so messages of secure clients are recorded once opened
+    this.host = new RelayXHost({
+      transport: this.hostTransport,
+      defaultHandler: (_data, { cmd, messageId }) => {
+        throw new RelayXError(createErrorResponse(cmd, messageId, {
+          code: ErrorCode.methodNotFound,
+          message: `Command ${cmd} is not stubbed`
+        }));
+      },
+      onRequest: ({ cmd, messageId, data, sign, idempotencyKey }) => {
+        this.recorded.push({ cmd, messageId, data, sign, idempotencyKey });
+      }
+    });
+  }
+
+  /** Transport to pass as `RelayXClientConfig.transport` */
+  get transport(): InMemoryTransport {
+    return this.clientTransport;
+  }
+
+  /** Every message sent to the host so far, in order */
+  get messages(): RecordedMessage[] {
+    return this.recorded.slice();
+  }
+
+  /** Creates a client connected to this host; it is destroyed with the host */
+  createClient(config: RelayXClientConfig = {}): RelayXClient {
+    const client = new RelayXClient({ ...config, transport: this.clientTransport });
+    this.clients.push(client);
+    return client;
+  }
+
+  /**
+   * Answers a command with a success response. The result may be a value or a
+   * function of the request data. Requests are validated like a real host does.
+   */
+  respond<K extends CommandName>(cmd: K, result?: CommandResult<K> | MockResolver<CommandResult<K>>, options?: MockReplyOptions): this;
+  respond<C extends string>(cmd: Exclude<C, CommandName>, result?: any, options?: MockReplyOptions): this;
+  respond(cmd: string, result?: any, options: MockReplyOptions = {}): this {
+    this.host.handle(cmd, async (data, context) => {
+      (options.progress || []).forEach(update => context.progress(update));
+      await this.wait(options.delay);
+      return typeof result === 'function'
+        ? result(data, { cmd, messageId: context.messageId, data, sign: context.sign })
+        : result;
+    });
+    return this;
+  }
+
+  /** Answers a command with an error response */
+  fail(cmd: string, code: ErrorCode, message?: string, options: MockReplyOptions & { data?: any } = {}): this {
+    this.host.handle(cmd, async (_data, context) => {
+      await this.wait(options.delay);
+      throw new RelayXError(createErrorResponse(cmd, context.messageId, { code, message, data: options.data }));
+    });
+    return this;
+  }
+
+  /** Never answers a command, so the client runs into its timeout */
+  noReply(cmd: string): this {
+    this.host.handle(cmd, () => new Promise(() => {}));
+    return this;
+  }
+
+  /** Removes the stub of a command; it then fails with `methodNotFound` */
+  unstub(cmd: string): this {
+    this.host.removeHandler(cmd);
+    return this;
+  }
+
+  /** Pushes an event to the connected clients */
+  emit<E extends HostEventName>(event: E, data?: HostEventMap[E]): void;
+  emit<E extends string>(event: Exclude<E, HostEventName>, data?: any): void;
+  emit(event: string, data?: any) {
+    this.host.emit(this.hostTransport, event, data);
+  }
+
+  /** Messages sent with a given command */
+  messagesFor<K extends CommandName>(cmd: K): (RecordedMessage & { data?: CommandRequest<K> })[];
+  messagesFor(cmd: string): RecordedMessage[];
+  messagesFor(cmd: string): RecordedMessage[] {
+    return this.recorded.filter(message => message.cmd === cmd);
+  }
+
+  /** The most recent message, optionally restricted to a command */
+  lastMessage(cmd?: string): RecordedMessage | undefined {
+    const messages = cmd ? this.messagesFor(cmd) : this.recorded;
+    return messages[messages.length - 1];
+  }
+
+  /** Forgets the recorded messages */
+  clearMessages() {
+    this.recorded = [];
+  }
+
+  /** Destroys the clients created with `createClient` and disconnects the host */
+  destroy() {
+    this.clients.splice(0).forEach(client => client.destroy());
+    this.host.destroy();
+    this.clientTransport.close();
+    this.recorded = [];
+  }
+
+  private wait(delay?: number): Promise<void> {
+    return delay && delay > 0 ? new Promise(resolve => setTimeout(resolve, delay)) : Promise.resolve();
+  }
+}
+
+export { MockHost };
+export default MockHost;
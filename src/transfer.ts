@@ -0,0 +1,126 @@
+/**
+ * Chunked transfer of binary payloads on top of the message protocol.
+ *
+ * The client announces a transfer with `transferStart`, sends the content in
+ * base64 `transferChunk` messages, then sends the actual command with a
+ * `transfer` reference in place of the binary field. The host reassembles the
+ * content, checks it and hands it to the command handler as a data URI, just
+ * like a payload sent in a single message.
+ */
+
+export const TRANSFER_START_COMMAND = 'transferStart';
+export const TRANSFER_CHUNK_COMMAND = 'transferChunk';
+
+export const DEFAULT_CHUNK_SIZE = 256 * 1024; // 256KB of raw bytes per chunk
+export const DEFAULT_MAX_TRANSFER_SIZE = 20 * 1024 * 1024; // 20MB
+
+// Binary inputs accepted by commands supporting chunked transfer
+export type BinaryInput = string | Blob | ArrayBuffer | ArrayBufferView;
+
+// Announces a transfer; the host replies with the chunks it already holds
+export interface TransferStartRequest {
+  transferId: string;
+  size: number;
+  mimeType: string;
+  chunkSize: number;
+  totalChunks: number;
+  checksum: number; // CRC-32 of the whole content
+}
+
+export interface TransferStartResult {
+  received: number[];
+}
+
+export interface TransferChunkRequest {
+  transferId: string;
+  index: number;
+  chunk: string; // Base64 content of the chunk
+  checksum: number; // CRC-32 of the chunk bytes
+}
+
+// Added to a command message whose `field` was sent as a chunked transfer
+export interface TransferReference {
+  transferId: string;
+  field: string;
+}
+
+export interface TransferProgress {
+  transferId: string;
+  sentBytes: number;
+  totalBytes: number;
+  sentChunks: number;
+  totalChunks: number;
+}
+
+let crcTable: number[] | null = null;
+
+/** Computes the CRC-32 checksum of a byte array */
+export function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = [];
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/** Encodes bytes as base64 */
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  // Convert in slices to stay below the argument limit of fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode.apply(null, Array.from(bytes.subarray(i, i + 0x8000)));
+  }
+  return btoa(binary);
+}
+
+/** Decodes base64 into bytes */
+export function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64.replace(/\s/g, ''));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Reads a binary input into bytes.
+ *
+ * @param input - A base64 data URI, Blob/File, ArrayBuffer or typed array
+ * @param mimeType - MIME type for inputs that do not carry one
+ * @returns The bytes and MIME type of the content
+ */
+export async function readBinary(input: BinaryInput, mimeType?: string): Promise<{ bytes: Uint8Array; mimeType: string }> {
+  if (typeof input === 'string') {
+    const match = /^data:([^;,]*)(;base64)?,/.exec(input);
+    if (!match || !match[2]) {
+      throw new Error('Only base64 data URIs are supported');
+    }
+    return { bytes: base64ToBytes(input.slice(match[0].length)), mimeType: match[1] || mimeType || '' };
+  }
+
+  if (typeof Blob !== 'undefined' && input instanceof Blob) {
+    return { bytes: new Uint8Array(await input.arrayBuffer()), mimeType: input.type || mimeType || '' };
+  }
+
+  if (input instanceof ArrayBuffer) {
+    return { bytes: new Uint8Array(input), mimeType: mimeType || '' };
+  }
+
+  if (ArrayBuffer.isView(input)) {
+    return { bytes: new Uint8Array(input.buffer, input.byteOffset, input.byteLength), mimeType: mimeType || '' };
+  }
+
+  throw new Error('Unsupported binary input');
+}
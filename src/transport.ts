@@ -0,0 +1,168 @@
+// A message received from the other side of a transport
+export interface TransportMessage {
+  data: any;
+  origin: string; // Origin of the sender, empty when the transport has no notion of origin
+  trusted: boolean; // Whether the sender passed the transport's source and origin checks
+}
+
+export type TransportListener = (message: TransportMessage) => void;
+
+/**
+ * Channel between a mini-app and its host. RelayXClient and RelayXHost only
+ * send and receive plain message objects through it, so the same command
+ * handling works over windows, message ports, native bridges or in memory.
+ */
+export interface Transport {
+  /** Posts a message to the other side, throwing when it cannot be delivered */
+  send(message: any): void;
+  /** Subscribes to incoming messages, returning the unsubscribe function */
+  subscribe(listener: TransportListener): () => void;
+}
+
+export interface WindowTransportOptions {
+  allowedOrigins?: string[]; // Origins whose messages are trusted, any origin when omitted
+  targetOrigin?: string; // Target origin used when posting, defaults to the single allowed origin or '*'
+}
+
+// postMessage transport to another window, such as the parent frame or the opener
+class WindowTransport implements Transport {
+  private static subscribers: Set<(event: MessageEvent) => void> = new Set();
+  private static listenerFn: ((event: MessageEvent<any>) => void) | null = null;
+  private readonly allowedOrigins: string[] | null;
+  private readonly targetOrigin: string;
+
+  constructor(private readonly getTarget: () => Window | null, options: WindowTransportOptions = {}) {
+    this.allowedOrigins = options.allowedOrigins && options.allowedOrigins.length ? options.allowedOrigins : null;
+
+    // Without an explicit target, a single allowed origin is the only safe recipient
+    this.targetOrigin = options.targetOrigin ||
+      (this.allowedOrigins && this.allowedOrigins.length === 1 ? this.allowedOrigins[0] : '*');
+  }
+
+  /**
+   * Shared window listener: hands each message to every subscriber,
+   * so any number of clients can live on the same page.
+   */
+  private static dispatchMessage(event: MessageEvent) {
+    Array.from(WindowTransport.subscribers).forEach(subscriber => subscriber(event));
+  }
+
+  send(message: any) {
+    const target = this.getTarget();
+    if (!target) {
+      throw new Error('Unable to send message to the target window. Window not found.');
+    }
+    target.postMessage(message, this.targetOrigin);
+  }
+
+  subscribe(listener: TransportListener): () => void {
+    const subscriber = (event: MessageEvent) => listener({
+      data: event.data,
+      origin: event.origin,
+      trusted: this.isTrustedEvent(event)
+    });
+
+    WindowTransport.subscribers.add(subscriber);
+    if (!WindowTransport.listenerFn) {
+      WindowTransport.listenerFn = WindowTransport.dispatchMessage;
+      window.addEventListener("message", WindowTransport.listenerFn);
+    }
+
+    return () => {
+      WindowTransport.subscribers.delete(subscriber);
+
+      // Only remove listener when no subscribers remain
+      if (WindowTransport.subscribers.size === 0 && WindowTransport.listenerFn) {
+        window.removeEventListener("message", WindowTransport.listenerFn);
+        WindowTransport.listenerFn = null;
+      }
+    };
+  }
+
+  /** Checks that a message was posted by the target window from an allowed origin */
+  private isTrustedEvent(event: MessageEvent): boolean {
+    if (!event.source || event.source !== this.getTarget()) return false;
+    return !this.allowedOrigins || this.allowedOrigins.includes(event.origin);
+  }
+}
+
+// Transport to the parent frame, the default of RelayXClient
+class ParentWindowTransport extends WindowTransport {
+  constructor(options: WindowTransportOptions = {}) {
+    super(() => window.parent, options);
+  }
+}
+
+// Transport to the window that opened this popup
+class OpenerTransport extends WindowTransport {
+  constructor(options: WindowTransportOptions = {}) {
+    super(() => window.opener, options);
+  }
+}
+
+// Transport over a MessageChannel port handed over by the host
+class MessagePortTransport implements Transport {
+  constructor(private readonly port: MessagePort) {}
+
+  send(message: any) {
+    this.port.postMessage(message);
+  }
+
+  subscribe(listener: TransportListener): () => void {
+    // Only the two ends of the channel can use the port, so every message is trusted
+    const handler = (event: MessageEvent) => listener({ data: event.data, origin: '', trusted: true });
+    this.port.addEventListener("message", handler);
+    this.port.start();
+    return () => this.port.removeEventListener("message", handler);
+  }
+}
+
+/**
+ * Transport connecting two endpoints in the same JavaScript context,
+ * e.g. a RelayXClient and a RelayXHost in Node tests. Create connected
+ * endpoints with `InMemoryTransport.createPair()`.
+ */
+class InMemoryTransport implements Transport {
+  private peer: InMemoryTransport | null = null;
+  private listeners: Set<TransportListener> = new Set();
+
+  static createPair(): [InMemoryTransport, InMemoryTransport] {
+    const first = new InMemoryTransport();
+    const second = new InMemoryTransport();
+    first.peer = second;
+    second.peer = first;
+    return [first, second];
+  }
+
+  send(message: any) {
+    const peer = this.peer;
+    if (!peer) {
+      throw new Error('Unable to send message. Transport is not connected.');
+    }
+
+    // Deliver asynchronously and by copy, like postMessage does
+    const data = typeof structuredClone === 'function' ? structuredClone(message) : message;
+    Promise.resolve().then(() => peer.deliver(data));
+  }
+
+  subscribe(listener: TransportListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /** Disconnects both endpoints */
+  close() {
+    if (this.peer) {
+      this.peer.peer = null;
+      this.peer = null;
+    }
+  }
+
+  private deliver(data: any) {
+    Array.from(this.listeners).forEach(listener => listener({ data, origin: '', trusted: true }));
+  }
+}
+
+export { ParentWindowTransport, OpenerTransport, MessagePortTransport, InMemoryTransport };
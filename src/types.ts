@@ -0,0 +1,90 @@
+import { FieldError } from "./schema";
+import { SecureHandshake } from "./secure";
+import { TransferReference } from "./transfer";
+
+// Define the structure of the payload sent to the parent window
+export interface Payload {
+  messageId?: string; // Optional unique identifier for the message
+  [key: string]: any; // Other dynamic key-value pairs
+}
+
+// Define error code enumeration
+export enum ErrorCode {
+  InvalidPayload = 30001,
+  MissingCertificate = 30002,
+  InvalidCertificate = 30003,
+  methodNotFound = 30004,
+  InternalError = 30005,
+  UntrustedOrigin = 30006,
+  RequestCancelled = 30007,
+  ProtocolMismatch = 30008,
+  ExceededUploadSizeLimit = 30010,
+  TimeoutError = 30011,
+  HostUnavailable = 30012,
+  NotInContainer = 30013,
+  SecureChannelError = 30014,
+}
+
+export interface ErrorResponse {
+  code: ErrorCode;
+  cmd?:string;
+  messageId: string;
+  message?: string;
+  data?: any;
+}
+
+export interface SuccessResponse<T = any> {
+  code: 200;
+  cmd: string;
+  messageId: string;
+  data: T;
+}
+
+// Discriminated on `code`: checking `code === 200` narrows to the success shape
+export type Response<T = any> = SuccessResponse<T> | ErrorResponse;
+
+export type CommandParamType = "callbackOnly" | "payload" | "signOnly" | "payloadAndSign";
+
+// Message envelope exchanged between the mini-app and its container
+export interface RequestMessage {
+  cmd: string;
+  messageId: string;
+  data?: Payload;
+  sign?: Payload;
+  transfer?: TransferReference; // Set when a field of `data` was sent as a chunked transfer
+  idempotencyKey?: string; // Same for every attempt of a retried command, so the host can de-duplicate
+  progress?: boolean; // The client accepts progress messages before the response
+}
+
+// Intermediate state of a long-running command, sent before its response
+export interface ProgressMessage {
+  cmd: string;
+  messageId: string;
+  progress: any;
+}
+
+// Unsolicited notification pushed by the host, identified by event name
+export interface EventMessage {
+  event: string;
+  data?: any;
+}
+
+// Exchanged by the handshake in both directions
+export interface HandshakeInfo {
+  version: string; // Package version of the sender
+  protocolVersion: number;
+  commands: string[]; // Commands the sender can handle, '*' when a host answers any command
+  secure?: SecureHandshake; // Key exchange of the secure channel, when requested
+}
+
+export interface ValidationContext {
+  transferred?: boolean; // The binary field arrived through a chunked transfer, so single-message size limits do not apply
+  signatureWindow?: number; // When set, sigInfo must be in ServiceSigner's canonical form and at most this many milliseconds old
+}
+
+export interface ValidationResult {
+  isValid: boolean;
+  errorCode?: ErrorCode;
+  errorMessage?: string;
+  errors?: FieldError[]; // Fields that failed validation, sent as `data.errors` of the ErrorResponse
+}
@@ -0,0 +1,45 @@
+import { ErrorCode, ErrorResponse } from "./types";
+
+/**
+ * Generate a globally unique command ID
+ */
+export function generateUniqueMessageId(): string {
+  // Prefer using the native browser Crypto API
+  if (typeof crypto === 'object' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+
+  // UUID v4 fallback
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (c) => {
+    const r = (Math.random() * 16) | 0;
+    const v = c === 'x' ? r : (r & 0x3) | 0x8;
+    return v.toString(16);
+  });
+}
+
+// Unified error handling function
+export function createErrorResponse(cmd: string, messageId: string, options: { code?: ErrorCode; message?: string; data?: any; } = {}): ErrorResponse {
+  const { code = ErrorCode.InvalidPayload, message, data } = options;
+
+  //Provide a default error message
+  const defaultMessages: Partial<Record<ErrorCode, string>> = {
+    [ErrorCode.InvalidPayload]: 'Invalid request payload',
+    [ErrorCode.MissingCertificate]: 'Certificate information is missing',
+    [ErrorCode.InvalidCertificate]: 'Invalid certificate format',
+    [ErrorCode.methodNotFound]: 'Method not found',
+    [ErrorCode.InternalError]: 'Internal error',
+    [ErrorCode.UntrustedOrigin]: 'Message from untrusted origin',
+    [ErrorCode.RequestCancelled]: 'Request cancelled',
+    [ErrorCode.ProtocolMismatch]: 'Unsupported protocol version',
+    [ErrorCode.ExceededUploadSizeLimit]: 'File size exceeds the limit',
+    [ErrorCode.TimeoutError]: 'Request timed out',
+    [ErrorCode.HostUnavailable]: 'Host is unavailable',
+    [ErrorCode.NotInContainer]: 'Not running inside the RelayApp container',
+    [ErrorCode.SecureChannelError]: 'Secure channel is not available'
+  };
+  const errorMessage = message || defaultMessages[code] || 'An error occurred';
+
+  const errorResponse: ErrorResponse = { code, cmd, messageId, message: errorMessage };
+  if (data) errorResponse.data = data;
+  return errorResponse;
+}
@@ -0,0 +1,402 @@
+import {
+  ConnectCocoPayRequest,
+  CopyToClipboardRequest,
+  DecryptRequest,
+  EncryptRequest,
+  GenerateSignatureRequest,
+  GetAccountRequest,
+  OpenURLRequest,
+  RegisterServiceRequest,
+  RequestBase,
+  SaveImageRequest,
+  SendServiceMessageRequest,
+  SetExtendedDataRequest,
+  SigInfo,
+  VerifySignatureRequest
+} from "./commands";
+import { FieldError, FieldSchema, checkSchema } from "./schema";
+import { parseSignedContent } from "./signing";
+import { ErrorCode, Payload, ValidationContext, ValidationResult } from "./types";
+
+/**
+ * Payload validation shared by RelayXClient and RelayXHost, so that both
+ * sides of the channel accept and reject exactly the same requests.
+ */
+
+const MAX_IMAGE_SIZE = 1 * 1024 * 1024; // 1MB
+
+const valid = (): ValidationResult => ({ isValid: true });
+
+const invalid = (errorMessage: string, errorCode: ErrorCode = ErrorCode.InvalidPayload, errors?: FieldError[]): ValidationResult => ({
+  isValid: false,
+  errorCode,
+  errorMessage,
+  ...(errors ? { errors } : {})
+});
+
+/**
+ * Calculates the original size of a Base64-encoded image.
+ *
+ * @param {string} base64String - The Base64-encoded image string (with or without data URI prefix).
+ * @returns {{ bytes: number, kb: string, mb: string }} - The image size in bytes, kilobytes (KB), and megabytes (MB).
+ */
+export function getBase64ImageSize(base64String: string) {
+  // Remove prefix
+  let base64 = base64String.split(',')[1] || base64String;
+  base64 = base64.replace(/\s/g, ''); // Remove spaces, line breaks, etc.
+
+  // Calculate padding
+  const padding = (base64.match(/=*$/) || [''])[0].length;
+  const bytes = base64.length * 3 / 4 - padding;
+  const kb = bytes / 1024;
+  const mb = kb / 1024;
+
+  return {
+    bytes: Math.floor(bytes),
+    kb: kb.toFixed(2),
+    mb: mb.toFixed(2)
+  };
+}
+
+// Validation rules of a command, applied to the `data` and `sign` fields of its message
+export interface CommandSchema {
+  data?: FieldSchema; // Schema of `data`, unchecked when omitted
+  signed?: boolean; // Requires valid signature information in `sign`
+  message?: string; // Error message when `data` does not match its schema
+  refine?: (data: Payload, context: ValidationContext) => ValidationResult; // Checks beyond the schema, run once it matches
+}
+
+const SIG_INFO_SCHEMA: FieldSchema = {
+  type: 'object',
+  properties: {
+    content: { type: 'string', nonEmpty: true },
+    signature: { type: 'string', nonEmpty: true }
+  }
+};
+
+/**
+ * Verify signature. With a `signatureWindow` in the context, the content must
+ * also be canonical and fresh; the signature itself is checked by ServiceVerifier.
+ */
+export function validateSigInfo(sigInfo: Partial<SigInfo> | undefined, context: ValidationContext = {}): ValidationResult {
+  if (!sigInfo) {
+    return invalid('Missing certificate information', ErrorCode.MissingCertificate, [
+      { path: 'sign', expected: 'object', reason: 'is missing' }
+    ]);
+  }
+
+  const errors = checkSchema(sigInfo, SIG_INFO_SCHEMA, 'sign');
+  if (errors.length) {
+    return invalid('Invalid certificate format', ErrorCode.InvalidCertificate, errors);
+  }
+
+  if (context.signatureWindow !== undefined) {
+    const expected = 'canonical signature content';
+    const signed = parseSignedContent(sigInfo.content!);
+    if (!signed) {
+      return invalid('Malformed signature content', ErrorCode.InvalidCertificate, [
+        { path: 'sign.content', expected, reason: 'is not in canonical form' }
+      ]);
+    }
+    if (Math.abs(Date.now() - signed.timestamp) > context.signatureWindow) {
+      return invalid('Signature expired', ErrorCode.InvalidCertificate, [
+        { path: 'sign.content', expected, reason: `is older than ${context.signatureWindow}ms` }
+      ]);
+    }
+  }
+
+  return valid();
+}
+
+const HTTP_METHODS = ['GET', 'HEAD', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'];
+
+// Content schemas of sendServiceMessage by message type, see registerServiceMessageType
+const serviceMessageTypes: { [type: string]: FieldSchema } = {
+  // Fields are optional, as HTTP messages predate the envelope built by serviceFetch
+  HTTP: {
+    type: 'object',
+    properties: {
+      method: { type: 'string', optional: true, enum: HTTP_METHODS },
+      url: { type: 'string', optional: true, nonEmpty: true },
+      headers: { type: 'object', optional: true }
+    }
+  }
+};
+
+/** Checks the content of sendServiceMessage against the schema of its message type */
+function refineSendServiceMessage(payload: Partial<SendServiceMessageRequest>): ValidationResult {
+  const contentSchema = serviceMessageTypes[payload.type as string];
+  if (!contentSchema) {
+    return invalid(`Unsupported service message type ${payload.type}`, ErrorCode.InvalidPayload, [{
+      path: 'data.type',
+      expected: `one of ${Object.keys(serviceMessageTypes).map(type => JSON.stringify(type)).join(', ')}`,
+      reason: `is ${JSON.stringify(payload.type)}`
+    }]);
+  }
+
+  const errors = checkSchema(payload.content, contentSchema, 'data.content');
+  return errors.length ? invalid('Invalid service message format', ErrorCode.InvalidPayload, errors) : valid();
+}
+
+const IMAGE_URI_SCHEMA: FieldSchema = { type: 'string', nonEmpty: true, prefix: 'data:image/', description: 'data:image/ URI' };
+
+/** Size and MIME type checks of saveImage, which the schema cannot express */
+function refineSaveImage(payload: Partial<SaveImageRequest>, context: ValidationContext): ValidationResult {
+  const image = payload.image;
+
+  if (typeof image !== 'string') {
+    // Binary images are sent as a chunked transfer and need an image MIME type
+    const isBlob = typeof Blob !== 'undefined' && image instanceof Blob;
+    const mimeType = payload.mimeType || (isBlob ? (image as Blob).type : '');
+    if (!mimeType.startsWith('image/')) {
+      return invalid('Invalid image data', ErrorCode.InvalidPayload, [
+        { path: 'data.mimeType', expected: 'image MIME type', reason: mimeType ? `is ${mimeType}` : 'is missing' }
+      ]);
+    }
+    return valid();
+  }
+
+  const errors = checkSchema(image, IMAGE_URI_SCHEMA, 'data.image');
+  if (errors.length) {
+    return invalid('Invalid image data', ErrorCode.InvalidPayload, errors);
+  }
+
+  if (context.transferred) {
+    return valid();
+  }
+
+  try {
+    const imageSize = getBase64ImageSize(image);
+
+    if (imageSize.bytes > MAX_IMAGE_SIZE) {
+      return invalid('Image size exceeds limit', ErrorCode.ExceededUploadSizeLimit, [
+        { path: 'data.image', expected: 'image of at most 1MB', reason: `is ${imageSize.mb}MB` }
+      ]);
+    }
+  } catch (e) {
+    return invalid('Failed to process image data');
+  }
+
+  return valid();
+}
+
+const nonEmptyString: FieldSchema = { type: 'string', nonEmpty: true };
+
+/**
+ * Schemas of the built-in commands, keyed by command name.
+ * Commands without an entry take no payload.
+ */
+const commandSchemas: { [cmd: string]: CommandSchema } = {
+  connectCocoPay: {
+    message: 'Invalid payload for connectCocoPay',
+    data: {
+      type: 'object',
+      properties: {
+        chainList: { type: 'array' },
+        walletSupports: { type: 'array', optional: true }
+      }
+    }
+  },
+  openURL: {
+    message: 'Invalid URL provided',
+    data: {
+      type: 'object',
+      properties: {
+        url: { type: 'string', nonEmpty: true, prefix: 'https://', maxLength: 200, description: 'https URL of at most 200 characters' },
+        useSystemOpen: { type: 'boolean', optional: true }
+      }
+    }
+  },
+  copyToClipboard: {
+    message: 'Invalid text for clipboard',
+    data: { type: 'object', properties: { text: nonEmptyString } }
+  },
+  saveImage: {
+    message: 'Invalid image data',
+    data: {
+      type: 'object',
+      properties: {
+        image: { type: ['string', 'binary'], description: 'data:image/ URI or binary image' },
+        mimeType: { type: 'string', optional: true }
+      }
+    },
+    refine: refineSaveImage
+  },
+  getAccount: {
+    message: 'Invalid account type',
+    data: {
+      type: 'object',
+      optional: true,
+      properties: { type: { type: 'string', enum: ['1'], optional: true } }
+    }
+  },
+  setExtendedData: {
+    message: 'Invalid extended data format',
+    data: { type: 'object', properties: { extend: { type: ['object', 'string'] } } }
+  },
+  generateSignature: {
+    message: 'Invalid message for signature',
+    data: { type: 'object', properties: { message: nonEmptyString } }
+  },
+  verifySignature: {
+    message: 'Invalid signature data',
+    data: { type: 'object', properties: { message: nonEmptyString, signature: nonEmptyString } }
+  },
+  encrypt: {
+    message: 'Invalid message for encryption',
+    data: { type: 'object', properties: { message: nonEmptyString } }
+  },
+  decrypt: {
+    message: 'Invalid content for decryption',
+    data: { type: 'object', properties: { content: nonEmptyString } }
+  },
+  registerService: {
+    message: 'Invalid service key',
+    signed: true,
+    data: { type: 'object', properties: { serviceKey: nonEmptyString } }
+  },
+  checkServiceStatus: {
+    signed: true
+  },
+  sendServiceMessage: {
+    message: 'Invalid service message format',
+    signed: true,
+    data: {
+      type: 'object',
+      properties: {
+        type: nonEmptyString,
+        content: { type: 'object' }
+      }
+    },
+    refine: refineSendServiceMessage
+  }
+};
+
+/**
+ * Validates the `data` and `sign` fields of a command message against the
+ * schema registered for the command. Failures list the offending fields in
+ * `errors`, which command methods and RelayXHost return as the `errors` of
+ * the ErrorResponse `data`.
+ */
+export function validateCommand(cmd: string, data: Payload | undefined, sign?: Payload, context: ValidationContext = {}): ValidationResult {
+  const schema = commandSchemas[cmd];
+  if (!schema) return valid();
+
+  if (schema.data) {
+    const errors = checkSchema(data, schema.data, 'data');
+    if (errors.length) {
+      return invalid(schema.message || `Invalid payload for ${cmd}`, ErrorCode.InvalidPayload, errors);
+    }
+  }
+
+  if (schema.refine) {
+    const refined = schema.refine(data || {}, context);
+    if (!refined.isValid) return refined;
+  }
+
+  return schema.signed ? validateSigInfo(sign, context) : valid();
+}
+
+/** Validates connectCocoPay payload */
+export function validateConnectCocoPay(payload: Partial<ConnectCocoPayRequest> | undefined): ValidationResult {
+  return validateCommand('connectCocoPay', payload);
+}
+
+/** Validates openURL payload */
+export function validateOpenURL(payload: Partial<OpenURLRequest> | undefined): ValidationResult {
+  return validateCommand('openURL', payload);
+}
+
+/** Validates copyToClipboard payload */
+export function validateCopyToClipboard(payload: Partial<CopyToClipboardRequest> | undefined): ValidationResult {
+  return validateCommand('copyToClipboard', payload);
+}
+
+/** Validates saveImage payload */
+export function validateSaveImage(payload: Partial<SaveImageRequest> | undefined, _sigInfo?: Partial<SigInfo>, context: ValidationContext = {}): ValidationResult {
+  return validateCommand('saveImage', payload, undefined, context);
+}
+
+/** Validates getAccount payload */
+export function validateGetAccount(payload: Partial<GetAccountRequest> | undefined): ValidationResult {
+  return validateCommand('getAccount', payload);
+}
+
+/** Validates setExtendedData payload */
+export function validateSetExtendedData(payload: Partial<SetExtendedDataRequest> | undefined): ValidationResult {
+  return validateCommand('setExtendedData', payload);
+}
+
+/** Validates generateSignature payload */
+export function validateGenerateSignature(payload: Partial<GenerateSignatureRequest> | undefined): ValidationResult {
+  return validateCommand('generateSignature', payload);
+}
+
+/** Validates verifySignature payload */
+export function validateVerifySignature(payload: Partial<VerifySignatureRequest> | undefined): ValidationResult {
+  return validateCommand('verifySignature', payload);
+}
+
+/** Validates encrypt payload */
+export function validateEncrypt(payload: Partial<EncryptRequest> | undefined): ValidationResult {
+  return validateCommand('encrypt', payload);
+}
+
+/** Validates decrypt payload */
+export function validateDecrypt(payload: Partial<DecryptRequest> | undefined): ValidationResult {
+  return validateCommand('decrypt', payload);
+}
+
+/** Validates registerService payload and signature */
+export function validateRegisterService(payload: Partial<RegisterServiceRequest> | undefined, sigInfo?: Partial<SigInfo>, context?: ValidationContext): ValidationResult {
+  return validateCommand('registerService', payload, sigInfo, context);
+}
+
+/** Validates checkServiceStatus signature */
+export function validateCheckServiceStatus(payload: RequestBase | undefined, sigInfo?: Partial<SigInfo>, context?: ValidationContext): ValidationResult {
+  return validateCommand('checkServiceStatus', payload, sigInfo, context);
+}
+
+/** Validates sendServiceMessage payload and signature */
+export function validateSendServiceMessage(payload: Partial<SendServiceMessageRequest> | undefined, sigInfo?: Partial<SigInfo>, context?: ValidationContext): ValidationResult {
+  return validateCommand('sendServiceMessage', payload, sigInfo, context);
+}
+
+/**
+ * Validators keyed by command name, applied to the `data` and `sign`
+ * fields of an incoming message. Commands without an entry take no payload.
+ */
+export const commandValidators: {
+  [cmd: string]: (data: Payload, sign?: Payload, context?: ValidationContext) => ValidationResult
+} = {};
+
+/**
+ * Registers the validation schema of a command, replacing any previous one.
+ * RelayXClient and RelayXHost then validate its messages like those of the
+ * built-in commands, for custom commands sent with `sendMessage` as well.
+ *
+ *   registerSchema('getOrder', {
+ *     message: 'Invalid order request',
+ *     data: { type: 'object', properties: { orderId: { type: 'string', nonEmpty: true } } }
+ *   });
+ */
+export function registerSchema(cmd: string, schema: CommandSchema) {
+  commandSchemas[cmd] = schema;
+  commandValidators[cmd] = (data, sign, context) => validateCommand(cmd, data, sign, context);
+}
+
+/**
+ * Registers a sendServiceMessage type besides HTTP, with the schema of its
+ * content, replacing any previous one. RelayXClient and RelayXHost reject
+ * messages of unregistered types.
+ *
+ *   registerServiceMessageType('WS', {
+ *     type: 'object',
+ *     properties: { channel: { type: 'string', nonEmpty: true }, payload: { type: 'any' } }
+ *   });
+ */
+export function registerServiceMessageType(type: string, content: FieldSchema) {
+  serviceMessageTypes[type] = content;
+}
+
+Object.keys(commandSchemas).forEach(cmd => registerSchema(cmd, commandSchemas[cmd]));
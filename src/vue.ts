@@ -0,0 +1,171 @@
+import { App, getCurrentScope, inject, InjectionKey, onScopeDispose, provide, Ref, shallowRef } from "vue";
+import { callCommand, followHostValue } from "./bindings";
+import {
+  CommandArgs,
+  CommandName,
+  CommandResult,
+  ErrorResponse,
+  HostEventListener,
+  HostEventMap,
+  HostEventName,
+  LanguageInfo,
+  RelayXClient,
+  RelayXClientConfig,
+  Response,
+  SafeAreaInsets
+} from "./index";
+
+/**
+ * Vue bindings: a plugin owning the client, and composables for commands,
+ * events and the values the host keeps up to date.
+ *
+ *   createApp(App).use(createRelayX({ targetOrigin: 'https://host.example' })).mount('#app');
+ */
+
+export const RelayXKey: InjectionKey<RelayXClient> = Symbol('relayx');
+
+export interface RelayXPlugin {
+  readonly client: RelayXClient;
+  install(app: App): void;
+}
+
+/** Creates the client unless one is given, reporting whether it was created */
+function ownClient(clientOrConfig?: RelayXClient | RelayXClientConfig): { client: RelayXClient; owned: boolean } {
+  return clientOrConfig instanceof RelayXClient
+    ? { client: clientOrConfig, owned: false }
+    : { client: new RelayXClient(clientOrConfig), owned: true };
+}
+
+/**
+ * Plugin providing a RelayXClient to the whole app. A client created from
+ * a configuration is destroyed when the app is unmounted; a given client
+ * stays owned by the caller.
+ */
+export function createRelayX(clientOrConfig?: RelayXClient | RelayXClientConfig): RelayXPlugin {
+  const { client, owned } = ownClient(clientOrConfig);
+
+  return {
+    client,
+    install(app: App) {
+      app.provide(RelayXKey, client);
+      if (owned) app.onUnmount(() => client.destroy());
+    }
+  };
+}
+
+/**
+ * Provides a RelayXClient to the descendants of the calling component,
+ * destroying a client created from a configuration when it is unmounted.
+ * Must be called from `setup`.
+ */
+export function provideRelayX(clientOrConfig?: RelayXClient | RelayXClientConfig): RelayXClient {
+  const { client, owned } = ownClient(clientOrConfig);
+  provide(RelayXKey, client);
+  if (owned) onScopeDispose(() => client.destroy());
+  return client;
+}
+
+/** The client provided by createRelayX or provideRelayX */
+export function useRelayX(): RelayXClient {
+  const client = inject(RelayXKey, null);
+  if (!client) {
+    throw new Error('No RelayXClient provided: install createRelayX() or call provideRelayX()');
+  }
+  return client;
+}
+
+/** Stops listening when the calling component or effect scope is disposed */
+function onDispose(stop: () => void): void {
+  if (getCurrentScope()) onScopeDispose(stop);
+}
+
+/** Listens to a host event until the calling component is unmounted */
+export function useRelayXEvent<E extends HostEventName>(event: E, listener: HostEventListener<HostEventMap[E]>): void {
+  const client = useRelayX();
+  client.on(event as string, listener);
+  onDispose(() => client.off(event, listener));
+}
+
+export interface UseRelayXCommandOptions<K extends CommandName> {
+  immediate?: boolean; // Runs the command right away
+  args?: CommandArgs<K>; // Arguments of the immediate call
+}
+
+export interface UseRelayXCommandResult<K extends CommandName> {
+  data: Ref<CommandResult<K> | undefined>; // Result of the last successful call
+  error: Ref<ErrorResponse | null>; // Error of the last call, if it failed
+  loading: Ref<boolean>;
+  response: Ref<Response<CommandResult<K>> | null>; // Response of the last call
+  execute: (...args: CommandArgs<K>) => Promise<Response<CommandResult<K>>>;
+  reset: () => void;
+}
+
+/**
+ * Tracks the state of a command:
+ *
+ *   const { data, error, loading, execute } = useRelayXCommand('getAccount');
+ *
+ * Only the latest call updates the refs, and nothing is updated once the
+ * component is unmounted. `execute` resolves with the response either way.
+ */
+export function useRelayXCommand<K extends CommandName>(cmd: K, options: UseRelayXCommandOptions<K> = {}): UseRelayXCommandResult<K> {
+  const client = useRelayX();
+  const data = shallowRef<CommandResult<K> | undefined>(undefined);
+  const error = shallowRef<ErrorResponse | null>(null);
+  const loading = shallowRef(false);
+  const response = shallowRef<Response<CommandResult<K>> | null>(null);
+  let lastCall = 0;
+  let disposed = false;
+  onDispose(() => {
+    disposed = true;
+  });
+
+  const execute = (...args: CommandArgs<K>) => {
+    const call = ++lastCall;
+    loading.value = true;
+
+    return callCommand(client, cmd, args).then(result => {
+      if (!disposed && call === lastCall) {
+        response.value = result;
+        data.value = result.code === 200 ? result.data : undefined;
+        error.value = result.code === 200 ? null : result;
+        loading.value = false;
+      }
+      return result;
+    });
+  };
+
+  const reset = () => {
+    lastCall++;
+    data.value = undefined;
+    error.value = null;
+    loading.value = false;
+    response.value = null;
+  };
+
+  if (options.immediate) {
+    execute(...(options.args || [] as unknown as CommandArgs<K>));
+  }
+
+  return { data, error, loading, response, execute, reset };
+}
+
+/** Follows a value the host announces changes of, null until it is known */
+function useHostValue<T>(load: (client: RelayXClient) => Promise<Response<T>>, event: HostEventName): Ref<T | null> {
+  const client = useRelayX();
+  const value = shallowRef<T | null>(null);
+  onDispose(followHostValue(client, load, event, next => {
+    value.value = next;
+  }));
+  return value;
+}
+
+/** Safe area insets of the host, updated on every safeAreaChange */
+export function useSafeAreaInsets(): Ref<SafeAreaInsets | null> {
+  return useHostValue(client => client.getSafeAreaInsets(), 'safeAreaChange');
+}
+
+/** Language of the host, updated on every languageChange */
+export function useLanguage(): Ref<LanguageInfo | null> {
+  return useHostValue(client => client.getLanguage(), 'languageChange');
+}
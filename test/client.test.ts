@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest';
+import { ErrorCode, InMemoryTransport, MemoryOutbox, PROTOCOL_VERSION, RelayXClient, RelayXError } from '../src';
+import { MockHost } from '../src/testing';
+
+/** Host side answering the handshake without the secure channel, at a given protocol version */
+function legacyHost(protocolVersion: number): InMemoryTransport {
+  const [clientSide, hostSide] = InMemoryTransport.createPair();
+  hostSide.subscribe(({ data }) => {
+    hostSide.send({ code: 200, cmd: data.cmd, messageId: data.messageId, data: { version: '0.0.1', protocolVersion, commands: [] } });
+  });
+  return clientSide;
+}
+
+describe('RelayXClient handshake', () => {
+  it.each([
+    ['autoConnect', { autoConnect: true }, 0, ErrorCode.ProtocolMismatch],
+    ['secure', { secure: true }, PROTOCOL_VERSION, ErrorCode.SecureChannelError]
+  ])('starts the %s handshake without unhandled rejections in throwOnError mode', async (_case, config, protocolVersion, code) => {
+    const client = new RelayXClient({ ...config, transport: legacyHost(protocolVersion), throwOnError: true });
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    const error = await client.connect().catch(rejection => rejection);
+    expect(error).toBeInstanceOf(RelayXError);
+    expect(error.code).toBe(code);
+    client.destroy();
+  });
+});
+
+describe('RelayXClient batch', () => {
+  it('sends entries with options of their own individually, honouring them', async () => {
+    const host = new MockHost();
+    host.respond('getLanguage', { language: 'en' }, { delay: 50 });
+    host.respond('getSafeAreaInsets', { top: 0, right: 0, bottom: 0, left: 0 });
+    host.respond('scanQRCode', { content: 'code' });
+    const client = host.createClient();
+    await client.connect();
+
+    const controller = new AbortController();
+    const results = client.batch([
+      { cmd: 'getLanguage', options: { signal: controller.signal } },
+      { cmd: 'getSafeAreaInsets' },
+      { cmd: 'scanQRCode' }
+    ]);
+    controller.abort();
+
+    const [language, insets, scan] = await results;
+    expect(language.code).toBe(ErrorCode.RequestCancelled);
+    expect(insets.code).toBe(200);
+    expect(scan.code).toBe(200);
+    expect(host.messagesFor('batch')[0].data!.requests.map((request: any) => request.cmd)).toEqual(['getSafeAreaInsets', 'scanQRCode']);
+    host.destroy();
+  });
+});
+
+describe('RelayXClient batch of Self Service commands', () => {
+  it('sends them individually, through the outbox and with an idempotency key', async () => {
+    const host = new MockHost();
+    host.respond('getLanguage', { language: 'en' });
+    host.respond('getSafeAreaInsets', { top: 0, right: 0, bottom: 0, left: 0 });
+    host.respond('sendServiceMessage', { status: 200 });
+    const outbox = new MemoryOutbox();
+    const settled: string[] = [];
+    const client = host.createClient({ outbox, onOutboxSettled: entry => settled.push(entry.messageId) });
+    await client.connect();
+
+    const sign = { content: 'content', signature: 'signature' };
+    const [message, language] = await client.batch([
+      { cmd: 'sendServiceMessage', payload: { data: { type: 'HTTP', content: {} }, sign } },
+      { cmd: 'getLanguage' },
+      { cmd: 'getSafeAreaInsets' }
+    ]);
+    expect(message.code).toBe(200);
+    expect(language.code).toBe(200);
+    expect(settled).toEqual([message.messageId]);
+    expect(host.lastMessage('sendServiceMessage')!.idempotencyKey).toEqual(expect.any(String));
+    expect(host.messagesFor('batch')[0].data!.requests.map((request: any) => request.cmd)).toEqual(['getLanguage', 'getSafeAreaInsets']);
+    host.destroy();
+  });
+});
+
+describe('RelayXClient batch of cached commands', () => {
+  it('answers them from the cache and caches their batched responses', async () => {
+    const host = new MockHost();
+    host.respond('getLanguage', { language: 'en' });
+    host.respond('getExtendedData', { extend: { theme: 'dark' } });
+    host.respond('getSafeAreaInsets', { top: 0, right: 0, bottom: 0, left: 0 });
+    const client = host.createClient({ cache: { getLanguage: Infinity, getExtendedData: Infinity } });
+    await client.connect();
+    await client.getLanguage();
+    const changes: any[] = [];
+    client.subscribe('getExtendedData', value => changes.push(value));
+
+    const [language, extended, insets] = await client.batch([
+      { cmd: 'getLanguage' },
+      { cmd: 'getExtendedData' },
+      { cmd: 'getSafeAreaInsets' }
+    ]);
+    expect(language).toMatchObject({ code: 200, data: { language: 'en' } });
+    expect(extended).toMatchObject({ code: 200, data: { extend: { theme: 'dark' } } });
+    expect(insets.code).toBe(200);
+    expect(host.messagesFor('batch')[0].data!.requests.map((request: any) => request.cmd)).toEqual(['getExtendedData', 'getSafeAreaInsets']);
+    expect(changes).toEqual([{ extend: { theme: 'dark' } }]);
+
+    await client.getExtendedData();
+    expect(host.messagesFor('getExtendedData')).toHaveLength(0);
+    host.destroy();
+  });
+});
+
+describe('RelayXClient outbox', () => {
+  const message = { type: 'HTTP' as const, content: {} };
+  const sign = { content: 'content', signature: 'signature' };
+
+  it('applies the timeout and retry options of the caller', async () => {
+    const host = new MockHost();
+    host.noReply('sendServiceMessage');
+    const outbox = new MemoryOutbox();
+    const client = host.createClient({ outbox, retry: { maxAttempts: 3, baseDelay: 1 } });
+
+    const response = await client.sendServiceMessage(message, sign, { timeout: 20, retry: false });
+    expect(response.code).toBe(ErrorCode.TimeoutError);
+    expect(host.messagesFor('sendServiceMessage')).toHaveLength(1);
+    expect(await outbox.load()).toEqual([]);
+    host.destroy();
+  });
+
+  it('keeps failed entries for a later flush under the retry policy', async () => {
+    const host = new MockHost();
+    host.fail('sendServiceMessage', ErrorCode.InternalError);
+    const outbox = new MemoryOutbox();
+    const client = host.createClient({ outbox });
+
+    const response = client.sendServiceMessage(message, sign, { retry: { maxAttempts: 2, baseDelay: 1 } });
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(host.messagesFor('sendServiceMessage')).toHaveLength(2);
+    expect(await outbox.load()).toMatchObject([{ retry: { maxAttempts: 2, baseDelay: 1 } }]);
+
+    host.respond('sendServiceMessage', { status: 200 });
+    await client.flushOutbox();
+    expect((await response).code).toBe(200);
+    host.destroy();
+  });
+});
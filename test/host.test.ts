@@ -0,0 +1,158 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { ErrorCode, InMemoryTransport, RelayXClient, RelayXHost, ServiceSigner, ServiceVerifier } from '../src';
+import { MockHost } from '../src/testing';
+
+describe('RelayXHost signature verification', () => {
+  let signer: ServiceSigner;
+  let host: RelayXHost;
+  let client: RelayXClient;
+  let lookupFails: boolean;
+
+  beforeEach(async () => {
+    const keys = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, false, ['sign', 'verify']);
+    signer = new ServiceSigner({ serviceKey: 'orders', privateKey: keys.privateKey });
+    lookupFails = true;
+
+    const [clientSide, hostSide] = InMemoryTransport.createPair();
+    const verifier = new ServiceVerifier({
+      publicKey: async () => {
+        if (lookupFails) throw new Error('key server down');
+        return keys.publicKey;
+      }
+    });
+    host = new RelayXHost({ transport: hostSide, verifier });
+    host.handle('sendServiceMessage', () => ({ status: 200 }));
+    client = new RelayXClient({ transport: clientSide });
+  });
+
+  afterEach(() => {
+    client.destroy();
+    host.destroy();
+  });
+
+  it('replies with InternalError when the public key lookup fails', async () => {
+    const message = { type: 'HTTP' as const, content: {} };
+    const response = await client.sendServiceMessage(message, await signer.sign(message), { retry: false, timeout: 1000 });
+
+    expect(response).toMatchObject({ code: ErrorCode.InternalError, message: 'Unable to verify the signature: key server down' });
+  });
+
+  it('lets an idempotent request be retried after the lookup failed', async () => {
+    const message = { type: 'HTTP' as const, content: {} };
+    const sign = await signer.sign(message);
+
+    const failed = await client.sendServiceMessage(message, sign, { idempotencyKey: 'order-1', retry: false, timeout: 1000 });
+    expect(failed.code).toBe(ErrorCode.InternalError);
+
+    lookupFails = false;
+    const retried = await client.sendServiceMessage(message, sign, { idempotencyKey: 'order-1', retry: false, timeout: 1000 });
+    expect(retried).toMatchObject({ code: 200, data: { status: 200 } });
+  });
+});
+
+describe('RelayXHost idempotent requests', () => {
+  let signer: ServiceSigner;
+  let host: RelayXHost;
+  let client: RelayXClient;
+  let handled: number;
+
+  beforeEach(async () => {
+    const keys = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, false, ['sign', 'verify']);
+    signer = new ServiceSigner({ serviceKey: 'orders', privateKey: keys.privateKey });
+    handled = 0;
+
+    const [clientSide, hostSide] = InMemoryTransport.createPair();
+    host = new RelayXHost({ transport: hostSide, verifier: new ServiceVerifier({ publicKey: keys.publicKey }) });
+    host.handle('sendServiceMessage', ({ content }) => ({ status: 200, body: `${content.url} #${++handled}` }));
+    client = new RelayXClient({ transport: clientSide });
+  });
+
+  afterEach(() => {
+    client.destroy();
+    host.destroy();
+  });
+
+  const order = (url: string) => ({ type: 'HTTP' as const, content: { url } });
+
+  it('replays the response to a retry of the same request', async () => {
+    const message = order('https://api.relayx.example/orders/1');
+    const sign = await signer.sign(message);
+
+    const first = await client.sendServiceMessage(message, sign, { idempotencyKey: 'order-1', retry: false });
+    const retried = await client.sendServiceMessage(message, sign, { idempotencyKey: 'order-1', retry: false });
+    expect(first.code === 200 && first.data.body).toBe('https://api.relayx.example/orders/1 #1');
+    expect(retried.code === 200 && retried.data.body).toBe('https://api.relayx.example/orders/1 #1');
+  });
+
+  it('verifies the signature before replaying a response', async () => {
+    const message = order('https://api.relayx.example/orders/1');
+    await client.sendServiceMessage(message, await signer.sign(message), { idempotencyKey: 'order-1', retry: false });
+
+    const other = order('https://api.relayx.example/orders/2');
+    const forged = await client.sendServiceMessage(other, { ...await signer.sign(other), signature: btoa('forged') }, {
+      idempotencyKey: 'order-1',
+      retry: false
+    });
+    expect(forged.code).toBe(ErrorCode.InvalidCertificate);
+    expect(handled).toBe(1);
+  });
+
+  it('rejects a reused key carrying another request', async () => {
+    const message = order('https://api.relayx.example/orders/1');
+    await client.sendServiceMessage(message, await signer.sign(message), { idempotencyKey: 'order-1', retry: false });
+
+    const other = order('https://api.relayx.example/orders/2');
+    const response = await client.sendServiceMessage(other, await signer.sign(other), { idempotencyKey: 'order-1', retry: false });
+    expect(response).toMatchObject({ code: ErrorCode.InvalidPayload, message: 'Idempotency key was already used for a different request' });
+    expect(handled).toBe(1);
+  });
+});
+
+describe('RelayXHost idempotency scope', () => {
+  it('keeps the idempotency keys of each frame and origin apart', async () => {
+    const [, hostSide] = InMemoryTransport.createPair();
+    const host = new RelayXHost({ transport: hostSide });
+    let handled = 0;
+    host.handle('order', () => ++handled);
+
+    const frame = {} as MessageEventSource;
+    const request = { cmd: 'order', messageId: '1', data: { item: 42 }, idempotencyKey: 'order-1' };
+    const send = (context: { origin: string; source: MessageEventSource }) => host.dispatch(request, context);
+
+    expect((await send({ origin: 'https://a.example', source: frame })).data).toBe(1);
+    expect((await send({ origin: 'https://a.example', source: frame })).data).toBe(1);
+    expect((await send({ origin: 'https://b.example', source: frame })).data).toBe(2);
+    expect((await send({ origin: 'https://a.example', source: {} as MessageEventSource })).data).toBe(3);
+    host.destroy();
+  });
+});
+
+describe('RelayXHost default handler', () => {
+  it('is reachable by clients that ran the handshake', async () => {
+    const [clientSide, hostSide] = InMemoryTransport.createPair();
+    const host = new RelayXHost({ transport: hostSide, defaultHandler: (_data, { cmd }) => ({ language: cmd }) });
+    const client = new RelayXClient({ transport: clientSide });
+
+    await client.connect();
+    expect(client.supports('getLanguage')).toBe(true);
+    expect(await client.getLanguage()).toMatchObject({ code: 200, data: { language: 'getLanguage' } });
+
+    client.destroy();
+    host.destroy();
+  });
+});
+
+describe('RelayXHost replies', () => {
+  it.each([
+    ['in clear', false, () => 'en'],
+    ['on a secure channel', true, BigInt(1)]
+  ])('answers with InternalError when a result cannot be sent %s', async (_case, secure, format) => {
+    const host = new MockHost();
+    host.respond('getLanguage', { language: 'en', format } as any);
+    const client = host.createClient({ secure });
+
+    const response = await client.getLanguage({ timeout: 1000 });
+    expect(response).toMatchObject({ code: ErrorCode.InternalError, message: expect.stringMatching(/^Unable to send the response/) });
+    host.destroy();
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { LogEntry, redactMessage } from '../src';
+import { MockHost } from '../src/testing';
+
+describe('redactMessage', () => {
+  it('redacts the signature and the texts of encrypt and decrypt', () => {
+    expect(redactMessage('encrypt', { cmd: 'encrypt', messageId: '1', data: { message: 'secret' }, sign: { signature: 'sig' } }))
+      .toEqual({ cmd: 'encrypt', messageId: '1', data: { message: '[redacted]' }, sign: '[redacted]' });
+    expect(redactMessage('decrypt', { code: 200, cmd: 'decrypt', messageId: '2', data: { message: 'secret' } }).data)
+      .toEqual({ message: '[redacted]' });
+  });
+
+  it('redacts the requests and responses of a batch by their own command', () => {
+    const request = redactMessage('batch', {
+      cmd: 'batch',
+      messageId: '1',
+      data: {
+        requests: [
+          { cmd: 'encrypt', messageId: '2', data: { message: 'secret' } },
+          { cmd: 'sendServiceMessage', messageId: '3', data: { type: 'HTTP', content: {} }, sign: { signature: 'sig' } }
+        ]
+      }
+    });
+    expect(request.data.requests).toEqual([
+      { cmd: 'encrypt', messageId: '2', data: { message: '[redacted]' } },
+      { cmd: 'sendServiceMessage', messageId: '3', data: { type: 'HTTP', content: {} }, sign: '[redacted]' }
+    ]);
+
+    const response = redactMessage('batch', {
+      code: 200,
+      cmd: 'batch',
+      messageId: '1',
+      data: { responses: [{ code: 200, cmd: 'decrypt', messageId: '2', data: { message: 'secret' } }] }
+    });
+    expect(response.data.responses[0].data).toEqual({ message: '[redacted]' });
+  });
+
+  it('keeps batch texts out of the client logs', async () => {
+    const host = new MockHost();
+    host.respond('encrypt', { content: 'cipher-text' });
+    host.respond('decrypt', { message: 'TOP-SECRET' });
+    const entries: LogEntry[] = [];
+    const client = host.createClient({ logger: { level: 'debug', sink: entry => entries.push(entry) } });
+    await client.connect();
+
+    const [encrypted, decrypted] = await client.batch([
+      { cmd: 'encrypt', payload: { message: 'TOP-SECRET' } },
+      { cmd: 'decrypt', payload: { content: 'cipher-text' } }
+    ]);
+    expect(encrypted.code).toBe(200);
+    expect(decrypted.code === 200 && decrypted.data.message).toBe('TOP-SECRET');
+    expect(entries.map(entry => entry.message)).toContain('Sent batch');
+    expect(JSON.stringify(entries)).not.toMatch(/TOP-SECRET|cipher-text/);
+
+    host.destroy();
+  });
+});
@@ -0,0 +1,74 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { MockHost } from '../src/testing';
+
+describe('secure channel', () => {
+  let host: MockHost;
+  const traffic: any[] = [];
+
+  beforeEach(() => {
+    host = new MockHost();
+    host.respond('getLanguage', { language: 'en' });
+    traffic.length = 0;
+    const send = host.transport.send.bind(host.transport);
+    host.transport.send = (message: any) => {
+      traffic.push(message);
+      send(message);
+    };
+  });
+
+  afterEach(() => {
+    host.destroy();
+  });
+
+  it('seals every request after the handshake', async () => {
+    const client = host.createClient({ secure: true });
+
+    expect((await client.getLanguage()).data).toEqual({ language: 'en' });
+    expect(traffic.map(message => message.cmd || 'sealed')).toEqual(['handshake', 'sealed']);
+  });
+
+  it('records the opened requests of secure clients', async () => {
+    const client = host.createClient({ secure: true });
+    await client.getLanguage();
+
+    expect(host.messages.map(message => message.cmd)).toEqual(['handshake', 'getLanguage']);
+  });
+
+  it('keeps a channel per client of the same frame', async () => {
+    const first = host.createClient({ secure: true });
+    expect((await first.getLanguage()).code).toBe(200);
+
+    const second = host.createClient({ secure: true });
+    expect((await second.getLanguage()).code).toBe(200);
+    expect((await first.getLanguage({ timeout: 1000 })).code).toBe(200);
+  });
+
+  it('answers plain clients sharing the transport with secure ones', async () => {
+    const secure = host.createClient({ secure: true });
+    const plain = host.createClient();
+    await secure.connect();
+
+    expect((await plain.getLanguage({ timeout: 1000 })).code).toBe(200);
+    expect((await secure.getLanguage({ timeout: 1000 })).code).toBe(200);
+  });
+
+  it('delivers events to every secure client', async () => {
+    const first = host.createClient({ secure: true });
+    const second = host.createClient({ secure: true });
+    await Promise.all([first.connect(), second.connect()]);
+
+    const received = Promise.all([first, second].map(client => new Promise(resolve => client.once('languageChange', resolve))));
+    host.emit('languageChange', { language: 'de' });
+    expect(await received).toEqual([{ language: 'de' }, { language: 'de' }]);
+  });
+
+  it('drops replayed messages', async () => {
+    const client = host.createClient({ secure: true });
+    await client.getLanguage();
+
+    const count = host.messages.length;
+    host.transport.send(traffic[traffic.length - 1]);
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(host.messages).toHaveLength(count);
+  });
+});
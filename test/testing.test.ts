@@ -0,0 +1,152 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { ErrorCode } from '../src';
+import { MockHost } from '../src/testing';
+
+const SIGN = { content: 'content', signature: 'signature' };
+const PNG = 'data:image/png;base64,iVBORw0KGgo=';
+
+describe('MockHost', () => {
+  let host: MockHost;
+
+  beforeEach(() => {
+    host = new MockHost();
+  });
+
+  afterEach(() => {
+    host.destroy();
+  });
+
+  it('answers stubbed commands and records the messages sent', async () => {
+    host.respond('getLanguage', { language: 'en' });
+    const client = host.createClient();
+
+    const response = await client.getLanguage();
+    expect(response).toMatchObject({ code: 200, data: { language: 'en' } });
+    expect(host.messagesFor('getLanguage')).toHaveLength(1);
+    expect(host.lastMessage()).toMatchObject({ cmd: 'getLanguage', messageId: response.messageId });
+  });
+
+  it('replies with the stubbed error', async () => {
+    host.fail('scanQRCode', ErrorCode.InternalError, 'Camera unavailable');
+    const client = host.createClient();
+
+    expect(await client.scanQRCode()).toMatchObject({ code: ErrorCode.InternalError, message: 'Camera unavailable' });
+  });
+
+  it.each([
+    ['autoConnect', { autoConnect: true }],
+    ['secure', { secure: true }]
+  ])('answers commands stubbed after an %s client connected', async (_case, config) => {
+    const client = host.createClient(config);
+    await client.connect();
+
+    expect((await client.saveImage({ image: PNG })).code).toBe(ErrorCode.methodNotFound);
+    host.respond('saveImage');
+    expect((await client.saveImage({ image: PNG })).code).toBe(200);
+    host.unstub('saveImage');
+    expect((await client.saveImage({ image: PNG })).code).toBe(ErrorCode.methodNotFound);
+  });
+
+  describe('openURL validation', () => {
+    it('sends https URLs', async () => {
+      host.respond('openURL');
+      const client = host.createClient();
+
+      expect((await client.openURL({ url: 'https://relayx.example' })).code).toBe(200);
+      expect(host.lastMessage('openURL')?.data).toEqual({ url: 'https://relayx.example' });
+    });
+
+    it.each([
+      ['an empty URL', ''],
+      ['a non-https URL', 'http://relayx.example'],
+      ['a URL over 200 characters', `https://relayx.example/${'a'.repeat(200)}`]
+    ])('rejects %s before sending it', async (_case, url) => {
+      host.respond('openURL');
+      const client = host.createClient();
+
+      const response = await client.openURL({ url });
+      expect(response).toMatchObject({ code: ErrorCode.InvalidPayload, message: 'Invalid URL provided' });
+      expect(response.code !== 200 && response.data.errors[0].path).toBe('data.url');
+      expect(host.messagesFor('openURL')).toHaveLength(0);
+    });
+  });
+
+  describe('saveImage validation', () => {
+    it('sends data:image/ URIs', async () => {
+      host.respond('saveImage');
+      const client = host.createClient();
+
+      expect((await client.saveImage({ image: PNG })).code).toBe(200);
+      expect(host.lastMessage('saveImage')?.data).toEqual({ image: PNG });
+    });
+
+    it('rejects images that are not data:image/ URIs', async () => {
+      const client = host.createClient();
+
+      const response = await client.saveImage({ image: 'data:text/plain;base64,aGVsbG8=' });
+      expect(response).toMatchObject({ code: ErrorCode.InvalidPayload, message: 'Invalid image data' });
+      expect(response.code !== 200 && response.data.errors[0].path).toBe('data.image');
+      expect(host.messages).toHaveLength(0);
+    });
+
+    it('rejects binary images without an image MIME type', async () => {
+      const client = host.createClient();
+
+      const response = await client.saveImage({ image: new Uint8Array([1, 2, 3]), mimeType: 'text/plain' });
+      expect(response).toMatchObject({ code: ErrorCode.InvalidPayload });
+      expect(response.code !== 200 && response.data.errors[0].path).toBe('data.mimeType');
+      expect(host.messages).toHaveLength(0);
+    });
+
+    it('rejects oversized images on the host', async () => {
+      host.respond('saveImage');
+      const image = `data:image/png;base64,${'A'.repeat(2 * 1024 * 1024)}`;
+
+      const response = await new Promise<any>(resolve => {
+        const stop = host.transport.subscribe(({ data }) => {
+          stop();
+          resolve(data);
+        });
+        host.transport.send({ cmd: 'saveImage', messageId: 'oversized', data: { image } });
+      });
+      expect(response).toMatchObject({ code: ErrorCode.ExceededUploadSizeLimit, messageId: 'oversized' });
+    });
+  });
+
+  describe('sendServiceMessage validation', () => {
+    it('sends HTTP messages with their signature', async () => {
+      host.respond('sendServiceMessage', { status: 200 });
+      const client = host.createClient();
+
+      const content = { method: 'GET', url: 'https://api.relayx.example' };
+      expect((await client.sendServiceMessage({ type: 'HTTP', content }, SIGN)).code).toBe(200);
+      expect(host.lastMessage('sendServiceMessage')).toMatchObject({ data: { type: 'HTTP', content }, sign: SIGN });
+    });
+
+    it('rejects unregistered message types', async () => {
+      const client = host.createClient();
+
+      const response = await client.sendServiceMessage({ type: 'SMTP' as 'HTTP', content: {} }, SIGN);
+      expect(response).toMatchObject({ code: ErrorCode.InvalidPayload });
+      expect(response.code !== 200 && response.data.errors[0].path).toBe('data.type');
+      expect(host.messages).toHaveLength(0);
+    });
+
+    it('rejects content that does not match the message type', async () => {
+      const client = host.createClient();
+
+      const response = await client.sendServiceMessage({ type: 'HTTP', content: { method: 'FETCH' } }, SIGN);
+      expect(response).toMatchObject({ code: ErrorCode.InvalidPayload, message: 'Invalid service message format' });
+      expect(response.code !== 200 && response.data.errors[0].path).toBe('data.content.method');
+    });
+
+    it('requires signature information', async () => {
+      const client = host.createClient();
+      const payload = { type: 'HTTP' as const, content: {} };
+
+      expect((await client.sendServiceMessage(payload, undefined as any)).code).toBe(ErrorCode.MissingCertificate);
+      expect((await client.sendServiceMessage(payload, { content: '', signature: 'signature' })).code).toBe(ErrorCode.InvalidCertificate);
+      expect(host.messages).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,89 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RelayXClient } from '../src';
+
+const HOST_ORIGIN = 'https://app.relayx.example';
+
+/** Minimal window whose parent answers every command with its own name */
+function createFakeWindow() {
+  const listeners = new Set<(event: any) => void>();
+  const dispatch = (event: any) => Array.from(listeners).forEach(listener => listener(event));
+
+  const parent = {
+    postMessage(message: any) {
+      setTimeout(() => dispatch({
+        data: { code: 200, cmd: message.cmd, messageId: message.messageId, data: { language: message.messageId } },
+        origin: HOST_ORIGIN,
+        source: parent
+      }));
+    }
+  };
+
+  return {
+    parent,
+    listeners,
+    addEventListener: vi.fn((type: string, listener: (event: any) => void) => {
+      if (type === 'message') listeners.add(listener);
+    }),
+    removeEventListener: vi.fn((type: string, listener: (event: any) => void) => {
+      if (type === 'message') listeners.delete(listener);
+    })
+  };
+}
+
+describe('WindowTransport shared dispatcher', () => {
+  let fakeWindow: ReturnType<typeof createFakeWindow>;
+
+  beforeEach(() => {
+    fakeWindow = createFakeWindow();
+    vi.stubGlobal('window', fakeWindow);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('delivers each response to the client that sent the request', async () => {
+    const first = new RelayXClient();
+    const second = new RelayXClient();
+
+    const [a, b] = await Promise.all([
+      first.getLanguage({ messageId: 'first' }),
+      second.getLanguage({ messageId: 'second' })
+    ]);
+    expect(a).toMatchObject({ code: 200, messageId: 'first', data: { language: 'first' } });
+    expect(b).toMatchObject({ code: 200, messageId: 'second', data: { language: 'second' } });
+    expect(fakeWindow.addEventListener).toHaveBeenCalledTimes(1);
+
+    first.destroy();
+    second.destroy();
+  });
+
+  it('keeps the second client working once the first is destroyed', async () => {
+    const first = new RelayXClient();
+    const second = new RelayXClient();
+
+    first.destroy();
+    expect(fakeWindow.removeEventListener).not.toHaveBeenCalled();
+    expect(fakeWindow.listeners.size).toBe(1);
+
+    const response = await second.getLanguage();
+    expect(response.code).toBe(200);
+
+    second.destroy();
+  });
+
+  it('removes the window listener when the last client is destroyed', () => {
+    const first = new RelayXClient();
+    const second = new RelayXClient();
+
+    second.destroy();
+    first.destroy();
+    expect(fakeWindow.removeEventListener).toHaveBeenCalledTimes(1);
+    expect(fakeWindow.listeners.size).toBe(0);
+
+    const third = new RelayXClient();
+    expect(fakeWindow.addEventListener).toHaveBeenCalledTimes(2);
+    third.destroy();
+    expect(fakeWindow.listeners.size).toBe(0);
+  });
+});